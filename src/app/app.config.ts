@@ -2,13 +2,32 @@ import { ApplicationConfig, provideBrowserGlobalErrorListeners, provideZoneChang
 import { provideRouter, withComponentInputBinding } from '@angular/router';
 
 import { routes } from './app.routes';
-import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClient, withFetch, withInterceptors } from '@angular/common/http';
+import { provideClientHydration, withEventReplay } from '@angular/platform-browser';
+import { provideCartStorage } from './shared/data-access/storage-adapters';
+import { httpCacheInterceptor } from './shared/data-access/http-cache.interceptor';
+import { offlineCatalogInterceptor } from './shared/data-access/offline.interceptor';
+import { httpErrorInterceptor } from './shared/data-access/http-error.interceptor';
+import { requestTimeoutInterceptor } from './shared/data-access/request-timeout.interceptor';
+import { provideAppConfig } from './shared/data-access/app-config.service';
+import { provideSeo } from './shared/data-access/seo.service';
+import { environment } from '../environments/environment';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
     provideZoneChangeDetection({ eventCoalescing: true }),
     provideRouter(routes, withComponentInputBinding()),
-    provideHttpClient(),
+    provideClientHydration(withEventReplay()), // Reuses the server's GET responses (HTTP transfer cache)
+    provideHttpClient(withFetch(), withInterceptors([
+      httpErrorInterceptor,
+      httpCacheInterceptor,
+      offlineCatalogInterceptor,
+      requestTimeoutInterceptor,
+    ])),
+    provideCartStorage('local'),
+    provideAppConfig(),
+    provideSeo(),
+    ...environment.providers,
   ]
 };
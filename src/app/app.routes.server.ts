@@ -0,0 +1,43 @@
+import { inject } from '@angular/core';
+import { PrerenderFallback, RenderMode, ServerRoute } from '@angular/ssr';
+import { catchError, firstValueFrom, map, Observable, of } from 'rxjs';
+import { ProductsService } from './data-access/products.service';
+
+/**
+ * Params for the pages prerendered at build time. An unreachable API only
+ * means fewer prerendered pages: the others are rendered on request.
+ */
+function prerenderParams<T>(
+  source$: Observable<T[]>,
+  toParams: (item: T) => Record<string, string>,
+) {
+  return firstValueFrom(
+    source$.pipe(
+      map((items) => items.map(toParams)),
+      catchError(() => of([])),
+    ),
+  );
+}
+
+export const serverRoutes: ServerRoute[] = [
+  { path: 'products', renderMode: RenderMode.Prerender },
+  {
+    path: 'product/:id',
+    renderMode: RenderMode.Prerender,
+    fallback: PrerenderFallback.Server,
+    getPrerenderParams: () =>
+      prerenderParams(inject(ProductsService).getAllProducts(), ({ id }) => ({ id: String(id) })),
+  },
+  {
+    path: 'category/:name',
+    renderMode: RenderMode.Prerender,
+    fallback: PrerenderFallback.Server,
+    getPrerenderParams: () =>
+      prerenderParams(inject(ProductsService).getCategories(), (name) => ({ name })),
+  },
+  // Built from what this browser stored, so there is nothing to render ahead
+  { path: 'cart', renderMode: RenderMode.Client },
+  { path: 'wishlist', renderMode: RenderMode.Client },
+  { path: 'checkout', renderMode: RenderMode.Client },
+  { path: '**', renderMode: RenderMode.Server },
+];
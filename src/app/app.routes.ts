@@ -5,8 +5,14 @@ export const routes: Routes = [
         path: '',
         loadChildren: () => import('./products/features/product-shell/product.route'),
     },
+    {
+        path: 'not-found',
+        title: 'Página no encontrada',
+        loadComponent: () => import('./not-found/not-found'),
+    },
     {
         path: '**',
-        redirectTo: '',
+        title: 'Página no encontrada',
+        loadComponent: () => import('./not-found/not-found'),
     },
 ];
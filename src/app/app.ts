@@ -26,6 +26,7 @@ import { Component, signal } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
 import { Header } from './shared/ui/header/header';
 import { Footer } from "./shared/ui/footer/footer";
+import { ToastOutlet } from './shared/ui/toast-outlet/toast-outlet';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🏠 ROOT APPLICATION COMPONENT
@@ -41,6 +42,7 @@ import { Footer } from "./shared/ui/footer/footer";
  * 
  * 🔍 Key responsibilities:
  * - Application shell (header, main content, footer)
+ * - Toast outlet for app-wide notifications (rendered once, fed by NotificationService)
  * - Router outlet for page navigation
  * - Global application state (if needed)
  * - Top-level error boundaries
@@ -48,7 +50,7 @@ import { Footer } from "./shared/ui/footer/footer";
 @Component({
   selector: 'app-root', // 🎯 Root selector used in index.html
   standalone: true, // 🎯 Standalone architecture (no NgModule)
-  imports: [RouterOutlet, Header, Footer], // 📥 Import required components
+  imports: [RouterOutlet, Header, Footer, ToastOutlet], // 📥 Import required components
   templateUrl: './app.html', // 🎨 External template file
   styleUrl: './app.scss' // 🎨 Component-specific styles
 })
@@ -85,6 +87,7 @@ export class App {
 ║   • Router outlet for dynamic content loading                               ║
 ║   • Standalone component architecture                                       ║
 ║   • Signal-based reactive properties                                        ║
+║   • Global overlays (toasts) mounted once in the root component             ║
 ║                                                                              ║
 ║ 🏗️ Architecture Benefits:                                                   ║
 ║   • Clear separation of layout and content                                  ║
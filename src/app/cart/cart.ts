@@ -1,11 +1,86 @@
-import { Component } from '@angular/core';
+import { Component, inject } from '@angular/core';
+import { CurrencyPipe } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { CartStateService } from '../shared/data-access/cart-state.service';
+import { PricingService } from '../shared/data-access/pricing.service';
+import { WishlistStateService } from '../shared/data-access/wishlist-state.service';
+import { RecommendationService } from '../shared/data-access/recommendation.service';
+import { Product, ProductItemCart } from '../shared/interfaces/product.interface';
+import { CartItem } from './ui/cart-item/cart-item';
+import { RecentlyViewed } from '../shared/ui/recently-viewed/recently-viewed';
+import { Recommendations } from '../shared/ui/recommendations/recommendations';
 
 @Component({
   selector: 'app-cart',
-  imports: [],
+  imports: [CartItem, CurrencyPipe, RouterLink, RecentlyViewed, Recommendations],
   templateUrl: './cart.html',
-  styles: ``
+  styles: ``,
+  host: {
+    '(document:keydown)': 'onKeydown($event)',
+  },
 })
 export default class Cart {
+  cart = inject(CartStateService);
+  state = this.cart.state;
+  pricing = inject(PricingService);
+  recommendations = inject(RecommendationService);
+  private wishlist = inject(WishlistStateService);
 
+  onRemove(id: number) {
+    this.state.remove(id);
+  }
+
+  onIncrement(id: number) {
+    this.state.increment(id);
+  }
+
+  onDecrement(id: number) {
+    this.state.decrement(id);
+  }
+
+  onQuantityChange(id: number, quantity: number) {
+    this.state.setQuantity({ id, quantity });
+  }
+
+  onMoveToWishlist(item: ProductItemCart) {
+    this.wishlist.moveFromCart(item);
+  }
+
+  onAddRecommended(product: Product) {
+    this.state.add({ product, quantity: 1 });
+  }
+
+  onClear() {
+    this.state.clear();
+  }
+
+  /**
+   * Ctrl+Z / Ctrl+Shift+Z (⌘ on macOS) undo and redo cart changes.
+   * Text fields keep their own native undo.
+   */
+  onKeydown(event: KeyboardEvent) {
+    const target = event.target as HTMLElement | null;
+    const editing = target?.closest('input, textarea, select, [contenteditable="true"]');
+
+    if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z' || editing) {
+      return;
+    }
+
+    event.preventDefault();
+    if (event.shiftKey) {
+      this.state.redo();
+    } else {
+      this.state.undo();
+    }
+  }
+
+  onApplyVoucher(event: Event, input: HTMLInputElement) {
+    event.preventDefault();
+    this.state.applyVoucher(input.value);
+    input.value = '';
+  }
+
+  onRemoveVoucher(code: string) {
+    this.state.removeVoucher(code);
+  }
 }
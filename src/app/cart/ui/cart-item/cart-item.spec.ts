@@ -0,0 +1,61 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+
+import { CartItem } from './cart-item';
+
+describe('CartItem', () => {
+  let component: CartItem;
+  let fixture: ComponentFixture<CartItem>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [CartItem],
+      providers: [provideRouter([])],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(CartItem);
+    fixture.componentRef.setInput('item', {
+      product: {
+        id: 1,
+        title: 'Backpack',
+        price: 109.95,
+        description: '',
+        category: "men's clothing",
+        image: '',
+        rating: { rate: 3.9, count: 120 },
+      },
+      quantity: 2,
+    });
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should ignore an empty quantity until the field loses focus', () => {
+    const changes: number[] = [];
+    component.quantityChange.subscribe((quantity) => changes.push(quantity));
+    const input: HTMLInputElement = fixture.nativeElement.querySelector('input');
+
+    input.value = '';
+    input.dispatchEvent(new Event('change'));
+    expect(changes).toEqual([]);
+
+    input.dispatchEvent(new Event('blur'));
+    expect(changes).toEqual([0]);
+  });
+
+  it('should emit typed quantities', () => {
+    const changes: number[] = [];
+    component.quantityChange.subscribe((quantity) => changes.push(quantity));
+    const input: HTMLInputElement = fixture.nativeElement.querySelector('input');
+
+    input.value = '4';
+    input.dispatchEvent(new Event('change'));
+    input.dispatchEvent(new Event('blur'));
+
+    expect(changes).toEqual([4]);
+  });
+});
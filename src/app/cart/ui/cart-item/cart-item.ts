@@ -0,0 +1,39 @@
+import { Component, input, output } from '@angular/core';
+import { CurrencyPipe } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { ProductItemCart } from '../../../shared/interfaces/product.interface';
+
+/**
+ * Presentation component for a single cart line.
+ * It only emits intents; the Cart page forwards them to CartStateService.
+ */
+@Component({
+  selector: 'app-cart-item',
+  imports: [CurrencyPipe, RouterLink],
+  templateUrl: './cart-item.html',
+  styles: ``,
+})
+export class CartItem {
+  item = input.required<ProductItemCart>();
+
+  increment = output<number>();
+  decrement = output<number>();
+  remove = output<number>();
+  quantityChange = output<number>();
+  moveToWishlist = output<ProductItemCart>();
+
+  /** An empty field is still being typed in; it only counts once it loses focus */
+  onQuantityInput(event: Event) {
+    const value = (event.target as HTMLInputElement).value;
+    if (value.trim() !== '') {
+      this.quantityChange.emit(Number(value));
+    }
+  }
+
+  /** Leaving the field empty means no units, which removes the line */
+  onQuantityBlur(event: Event) {
+    if ((event.target as HTMLInputElement).value.trim() === '') {
+      this.quantityChange.emit(0);
+    }
+  }
+}
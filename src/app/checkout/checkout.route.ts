@@ -0,0 +1,9 @@
+import { Routes } from "@angular/router";
+
+export default [
+    {
+        path: '',
+        loadComponent: () => import('./checkout'),
+    }
+
+] as Routes;
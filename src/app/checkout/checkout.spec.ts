@@ -0,0 +1,53 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
+import { of } from 'rxjs';
+import { StorageService } from '../shared/data-access/storage.service';
+
+import Checkout from './checkout';
+
+describe('Checkout', () => {
+  let component: Checkout;
+  let fixture: ComponentFixture<Checkout>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [Checkout],
+      providers: [provideRouter([]), provideHttpClient(), provideHttpClientTesting()],
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(Checkout);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should not open a step until the previous ones are valid', () => {
+    expect(component.canOpen(1)).toBeFalse();
+
+    component.form.controls.contact.setValue({ email: 'ana@example.com', phone: '+56 912345678' });
+
+    expect(component.canOpen(1)).toBeTrue();
+    expect(component.canOpen(2)).toBeFalse();
+  });
+
+  it('should not resume a draft past a step whose data is invalid', () => {
+    spyOn(TestBed.inject(StorageService), 'loadCheckoutDraft').and.returnValue(
+      of({
+        step: 3,
+        contact: { email: 'ana@example.com', phone: '+56 912345678' },
+        address: { fullName: '', street: '', city: '', postalCode: '', country: '' },
+        shippingMethod: 'standard' as const,
+      }),
+    );
+
+    const resumed = TestBed.createComponent(Checkout).componentInstance;
+
+    expect(resumed.currentStep()).toBe(1);
+  });
+});
@@ -0,0 +1,199 @@
+import { Component, computed, DestroyRef, inject, signal } from '@angular/core';
+import { takeUntilDestroyed, toSignal } from '@angular/core/rxjs-interop';
+import { CurrencyPipe } from '@angular/common';
+import {
+  AbstractControl,
+  NonNullableFormBuilder,
+  ReactiveFormsModule,
+  Validators,
+} from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { debounceTime } from 'rxjs';
+import { CheckoutStateService } from '../data-access/checkout-state.service';
+import { CartStateService } from '../shared/data-access/cart-state.service';
+import { applyShippingMethod, PricingService } from '../shared/data-access/pricing.service';
+import { StorageService } from '../shared/data-access/storage.service';
+import { ShippingMethod } from '../shared/interfaces/pricing.interface';
+
+type StepId = 'contact' | 'address' | 'shipping' | 'payment' | 'review';
+
+interface Step {
+  id: StepId;
+  label: string;
+}
+
+/**
+ * Five-step checkout. Each step owns a nested FormGroup and must be valid
+ * before the next one can be opened. Everything but payment is saved as a
+ * draft so the customer can come back later.
+ */
+@Component({
+  selector: 'app-checkout',
+  imports: [ReactiveFormsModule, CurrencyPipe, RouterLink],
+  templateUrl: './checkout.html',
+  styles: ``,
+  providers: [CheckoutStateService],
+})
+export default class Checkout {
+  private fb = inject(NonNullableFormBuilder);
+  private storageService = inject(StorageService);
+  private pricing = inject(PricingService);
+  private destroyRef = inject(DestroyRef);
+
+  cartState = inject(CartStateService).state;
+  checkoutState = inject(CheckoutStateService).state;
+
+  steps: Step[] = [
+    { id: 'contact', label: 'Contacto' },
+    { id: 'address', label: 'Dirección' },
+    { id: 'shipping', label: 'Envío' },
+    { id: 'payment', label: 'Pago' },
+    { id: 'review', label: 'Revisión' },
+  ];
+
+  shippingMethods: { id: ShippingMethod; label: string }[] = [
+    { id: 'standard', label: 'Estándar (3-5 días)' },
+    { id: 'express', label: 'Express (24 h)' },
+    { id: 'pickup', label: 'Retiro en tienda' },
+  ];
+
+  form = this.fb.group({
+    contact: this.fb.group({
+      email: ['', [Validators.required, Validators.email]],
+      phone: ['', [Validators.required, Validators.pattern(/^\+?[\d\s-]{7,15}$/)]],
+    }),
+    address: this.fb.group({
+      fullName: ['', Validators.required],
+      street: ['', Validators.required],
+      city: ['', Validators.required],
+      postalCode: ['', [Validators.required, Validators.pattern(/^[\w\s-]{3,10}$/)]],
+      country: ['', Validators.required],
+    }),
+    shipping: this.fb.group({
+      method: this.fb.control<ShippingMethod>('standard', Validators.required),
+    }),
+    payment: this.fb.group({
+      cardName: ['', Validators.required],
+      cardNumber: ['', [Validators.required, Validators.pattern(/^(\d{4} ?){3}\d{1,7}$/)]],
+      expiry: ['', [Validators.required, Validators.pattern(/^(0[1-9]|1[0-2])\/\d{2}$/)]],
+      cvc: ['', [Validators.required, Validators.pattern(/^\d{3,4}$/)]],
+    }),
+  });
+
+  currentStep = signal(0);
+
+  private shippingMethod = toSignal(this.form.controls.shipping.controls.method.valueChanges, {
+    initialValue: this.form.controls.shipping.controls.method.value,
+  });
+
+  totals = computed(() =>
+    applyShippingMethod(this.pricing.totals(), this.shippingMethod(), this.pricing.rules),
+  );
+
+  constructor() {
+    this.storageService
+      .loadCheckoutDraft()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe((draft) => {
+        if (!draft) {
+          return;
+        }
+        this.form.patchValue({
+          contact: draft.contact,
+          address: draft.address,
+          shipping: { method: draft.shippingMethod },
+        });
+        // Payment is never saved, so a draft can at most resume at that step,
+        // and never past a step whose saved data is no longer valid
+        this.currentStep.set(
+          this.furthestOpenable(Math.min(draft.step, this.stepIndex('payment'))),
+        );
+      });
+
+    this.form.valueChanges
+      .pipe(debounceTime(300), takeUntilDestroyed(this.destroyRef))
+      .subscribe(() => this.saveDraft());
+  }
+
+  isStepValid(index: number): boolean {
+    const id = this.steps[index].id;
+    return id === 'review' || this.form.controls[id].valid;
+  }
+
+  canOpen(index: number): boolean {
+    return this.steps.slice(0, index).every((_step, previous) => this.isStepValid(previous));
+  }
+
+  goTo(index: number) {
+    if (this.canOpen(index)) {
+      this.currentStep.set(index);
+      this.saveDraft();
+    }
+  }
+
+  next() {
+    const index = this.currentStep();
+    const id = this.steps[index].id;
+
+    if (id !== 'review' && this.form.controls[id].invalid) {
+      this.form.controls[id].markAllAsTouched();
+      return;
+    }
+
+    this.goTo(index + 1);
+  }
+
+  back() {
+    this.goTo(Math.max(this.currentStep() - 1, 0));
+  }
+
+  hasError(step: Exclude<StepId, 'review'>, control: string): boolean {
+    const field = (this.form.controls[step] as AbstractControl).get(control);
+    return !!field && field.invalid && field.touched;
+  }
+
+  submit() {
+    if (this.form.invalid || this.cartState.products().length === 0) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    const { contact, address, shipping } = this.form.getRawValue();
+
+    this.checkoutState.submit({
+      contact,
+      address,
+      shippingMethod: shipping.method,
+      items: this.cartState.products(),
+      vouchers: this.cartState.vouchers(),
+      totals: this.totals(),
+    });
+  }
+
+  /** The last step up to `index` that `canOpen` lets the customer reach. */
+  private furthestOpenable(index: number): number {
+    let step = 0;
+    while (step < index && this.canOpen(step + 1)) {
+      step++;
+    }
+    return step;
+  }
+
+  private stepIndex(id: StepId): number {
+    return this.steps.findIndex((step) => step.id === id);
+  }
+
+  private saveDraft() {
+    if (this.checkoutState.status() === 'success' || this.checkoutState.status() === 'queued') {
+      return;
+    }
+
+    const { contact, address, shipping } = this.form.getRawValue();
+    this.storageService.saveCheckoutDraft({
+      step: this.currentStep(),
+      contact,
+      address,
+      shippingMethod: shipping.method,
+    });
+  }
+}
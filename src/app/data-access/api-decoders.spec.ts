@@ -0,0 +1,41 @@
+import { decodePayload } from '../shared/data-access/decoders';
+import { productListDecoder } from './api-decoders';
+
+const ignore = () => undefined;
+
+describe('productListDecoder', () => {
+  it('should normalise products with loose types', () => {
+    const [product] = decodePayload(
+      productListDecoder,
+      [{ id: '7', title: 'Backpack', price: '109.95', image: null }],
+      'test',
+      ignore,
+    );
+
+    expect(product).toEqual({
+      id: 7,
+      title: 'Backpack',
+      price: 109.95,
+      description: '',
+      category: '',
+      image: '',
+      rating: { rate: 0, count: 0 },
+    });
+  });
+
+  it('should drop products without a usable id, title or price', () => {
+    const products = decodePayload(
+      productListDecoder,
+      [
+        { id: 1, title: 'Ok', price: 1 },
+        { id: 2, title: '', price: 1 },
+        { id: 3, title: 'Free?', price: 'n/a' },
+        { title: 'No id', price: 1 },
+      ],
+      'test',
+      ignore,
+    );
+
+    expect(products.map(({ id }) => id)).toEqual([1]);
+  });
+});
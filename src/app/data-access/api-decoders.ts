@@ -0,0 +1,50 @@
+import { Decoder } from '../shared/interfaces/decoder.interface';
+import { OrderConfirmation, OrderLine } from '../shared/interfaces/order.interface';
+import { Product } from '../shared/interfaces/product.interface';
+import {
+  integer,
+  listOf,
+  number,
+  object,
+  refine,
+  string,
+  withDefault,
+} from '../shared/data-access/decoders';
+
+const positiveInteger = () => refine(integer(), (value) => value > 0, 'is not a positive integer');
+
+/**
+ * A product needs an id, a title and a usable price to be shown or put in
+ * the cart; everything else falls back to an empty value.
+ */
+export const productDecoder: Decoder<Product> = object<Product>({
+  id: positiveInteger(),
+  title: refine(string(), (title) => title.trim() !== '', 'is empty'),
+  price: refine(number(), (price) => price >= 0, 'is negative'),
+  description: withDefault(string(), ''),
+  category: withDefault(string(), ''),
+  image: withDefault(string(), ''),
+  rating: withDefault(
+    object<Product['rating']>({
+      rate: withDefault(number(), 0),
+      count: withDefault(integer(), 0),
+    }),
+    { rate: 0, count: 0 },
+  ),
+});
+
+export const productListDecoder: Decoder<Product[]> = listOf(productDecoder);
+
+export const categoryListDecoder: Decoder<string[]> = listOf(string());
+
+const orderLineDecoder: Decoder<OrderLine> = object<OrderLine>({
+  productId: positiveInteger(),
+  quantity: positiveInteger(),
+});
+
+export const orderConfirmationDecoder: Decoder<OrderConfirmation> = object<OrderConfirmation>({
+  id: positiveInteger(),
+  userId: withDefault(integer(), 0),
+  date: withDefault(string(), ''),
+  products: withDefault(listOf(orderLineDecoder), []),
+});
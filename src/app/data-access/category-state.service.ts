@@ -0,0 +1,34 @@
+import { Injectable, inject } from "@angular/core";
+import { Product } from "../shared/interfaces/product.interface";
+import { ProductsService } from "./products.service";
+import { trackedSlice } from '../shared/data-access/tracked-slice';
+import { Observable, of } from "rxjs";
+import { catchError, map, startWith, switchMap } from "rxjs/operators";
+
+interface State {
+    category: string | null;
+    products: Product[];
+    status: 'loading' | 'success' | 'error';
+}
+@Injectable()
+export class CategoryStateService {
+    private productsService = inject(ProductsService);
+    private initialState: State = {
+        category: null,
+        products: [],
+        status: 'loading' as const,
+    };
+
+    state = trackedSlice('category')({
+        initialState: this.initialState,
+        actionSources: {
+            load: (_state, $: Observable<string>) => $.pipe(
+                switchMap((category) => this.productsService.getProductsByCategory(category).pipe(
+                    map(products => ({ products, status: 'success' as const })),
+                    catchError(() => of({ products: [], status: 'error' as const })),
+                    startWith({ category, products: [], status: 'loading' as const }),
+                )),
+            ),
+        },
+    });
+}
@@ -0,0 +1,85 @@
+import { Injectable, inject } from "@angular/core";
+import { trackedSlice } from '../shared/data-access/tracked-slice';
+import { HttpErrorResponse } from "@angular/common/http";
+import { Observable, defer, of } from "rxjs";
+import { catchError, exhaustMap, filter, map, startWith, tap } from "rxjs/operators";
+import { OrdersService } from "./orders.service";
+import { orderConfirmationDecoder } from "./api-decoders";
+import { CartStateService } from "../shared/data-access/cart-state.service";
+import { StorageService } from "../shared/data-access/storage.service";
+import { ConnectivityService } from "../shared/data-access/connectivity.service";
+import { OfflineQueueService } from "../shared/data-access/offline-queue.service";
+import { RecommendationService } from "../shared/data-access/recommendation.service";
+import { OrderConfirmation, OrderRequest } from "../shared/interfaces/order.interface";
+
+interface State {
+    order: OrderConfirmation | null;
+    status: 'idle' | 'submitting' | 'queued' | 'success' | 'error';
+    queuedId: string | null;
+}
+@Injectable()
+export class CheckoutStateService {
+    private ordersService = inject(OrdersService);
+    private cartState = inject(CartStateService).state;
+    private storageService = inject(StorageService);
+    private connectivity = inject(ConnectivityService);
+    private offlineQueue = inject(OfflineQueueService);
+    private recommendations = inject(RecommendationService);
+    private initialState: State = {
+        order: null,
+        status: 'idle' as const,
+        queuedId: null,
+    };
+
+    state = trackedSlice('checkout')({
+        initialState: this.initialState,
+        sources: [
+            // The order queued from this page went through once we were back online;
+            // the queue does not know what it replayed, so the confirmation is decoded here
+            (state) => this.offlineQueue.replayed$.pipe(
+                filter(({ operation }) => operation.id === state().queuedId),
+                map(({ result }) => orderConfirmationDecoder(result, '$')),
+                map((confirmation) => ({
+                    order: confirmation.ok ? confirmation.value : null,
+                    status: 'success' as const,
+                    queuedId: null,
+                })),
+            ),
+        ],
+        actionSources: {
+            // exhaustMap ignores double clicks while an order is in flight
+            submit: (_state, $: Observable<OrderRequest>) => $.pipe(
+                exhaustMap((order) => !this.connectivity.online()
+                    ? this.queueOrder(order)
+                    : this.ordersService.createOrder(order).pipe(
+                        tap(() => this.resetCheckout(order)),
+                        map((confirmation) => ({ order: confirmation, status: 'success' as const })),
+                        // status 0: the request never reached the server
+                        catchError((error) => error instanceof HttpErrorResponse && error.status === 0
+                            ? this.queueOrder(order)
+                            : of({ status: 'error' as const })),
+                        startWith({ status: 'submitting' as const }),
+                    )),
+            ),
+        },
+    });
+
+    /**
+     * Keeps the order to be sent when the connection returns. The cart is
+     * emptied right away, as the order now lives in the queue.
+     */
+    private queueOrder(order: OrderRequest) {
+        return defer(() => {
+            const { id } = this.offlineQueue.enqueue('order', order);
+            this.resetCheckout(order);
+            return of({ status: 'queued' as const, queuedId: id });
+        });
+    }
+
+    private resetCheckout(order: OrderRequest) {
+        // Recorded before the cart is emptied so its basket is not kept twice
+        this.recommendations.state.recordOrder(order.items);
+        this.cartState.reset();
+        this.storageService.clearCheckoutDraft();
+    }
+}
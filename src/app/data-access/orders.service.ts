@@ -0,0 +1,44 @@
+import { Injectable } from "@angular/core";
+import { HttpContext } from "@angular/common/http";
+import { BaseHttpService } from "../shared/data-access/base-http.service";
+import { SILENT_HTTP_ERRORS } from "../shared/data-access/http-error.interceptor";
+import { Observable } from "rxjs";
+import { OrderConfirmation, OrderRequest } from "../shared/interfaces/order.interface";
+import { orderConfirmationDecoder } from "./api-decoders";
+import { isProductItemCart } from "../shared/data-access/storage.service";
+
+const GUEST_USER_ID = 1;
+
+/**
+ * Enough of an order to send it again, e.g. when read back from the offline queue.
+ */
+export function isOrderRequest(value: unknown): value is OrderRequest {
+    const order = value as OrderRequest;
+    return (
+        typeof order === 'object' && order !== null &&
+        typeof order.contact === 'object' && order.contact !== null &&
+        typeof order.address === 'object' && order.address !== null &&
+        Array.isArray(order.items) && order.items.length > 0 && order.items.every(isProductItemCart) &&
+        Array.isArray(order.vouchers)
+    );
+}
+
+@Injectable({providedIn: 'root'})
+export class OrdersService extends BaseHttpService {
+    /**
+     * Failures are reported by the checkout page itself (or the order is queued),
+     * so they are kept out of the error toasts.
+     */
+    createOrder(order: OrderRequest): Observable<OrderConfirmation> {
+        return this.http.post<unknown>(`${this.apiUrl}/carts`, {
+            userId: GUEST_USER_ID,
+            date: new Date().toISOString(),
+            products: order.items.map(({ product, quantity }) => ({
+                productId: product.id,
+                quantity,
+            })),
+        }, { context: new HttpContext().set(SILENT_HTTP_ERRORS, true) }).pipe(
+            this.decode(orderConfirmationDecoder, 'POST /carts'),
+        );
+    }
+}
@@ -1,33 +1,50 @@
-import { Injectable, inject } from "@angular/core";
+import { Injectable, inject, untracked } from "@angular/core";
 import { Product } from "../shared/interfaces/product.interface";
 import { ProductsService } from "./products.service";
-import { signalSlice } from 'ngxtension/signal-slice';
-import { map, Observable, switchMap } from "rxjs";
+import { RETRY_POLICY, retryWithBackoff } from "../shared/data-access/api-errors";
+import { createEntityAdapter, createEntityStore } from "../shared/data-access/entity-store";
+import { concat, Observable, of, switchMap } from "rxjs";
 
 
 
 interface State {
-    product: Product | null;
-    status: 'loading' | 'success' | 'error';
+    selectedId: number | null;
 }
 @Injectable()
 export class ProductDetailStateService {
     private productsService = inject(ProductsService);
+    private retryPolicy = inject(RETRY_POLICY);
+    private adapter = createEntityAdapter((product: Product) => product.id);
     private initialState: State = {
-        product: null,
-        status: 'loading' as const,
+        selectedId: null,
     };
 
 
 
-    state = signalSlice({
+    // Products viewed before stay in the store, only the selected one is shown
+    state = createEntityStore({
+        name: 'product-detail',
+        adapter: this.adapter,
         initialState: this.initialState,
-        actionSources: {
-            getById: (_state, $: Observable<string>) => $.pipe(
-                switchMap((id) => this.productsService.getProduct(id)),
-                map(data => ({ product: data, status: 'success' as const }))
+        initialRequest: { status: 'loading' },
+        actionSources: ({ request }) => ({
+            getById: (state, $: Observable<string>) => $.pipe(
+                switchMap((id) => concat(
+                    of({ selectedId: Number(id) }),
+                    request(
+                        this.productsService.getProduct(id).pipe(retryWithBackoff(this.retryPolicy)),
+                        // A cached product answers synchronously: reading state() here
+                        // must not make the caller's effect depend on this store
+                        (product) => untracked(() => this.adapter.upsertMany(state(), [product])),
+                    ),
+                )),
             ),
-        },
+        }),
+        selectors: (state) => ({
+            product: () => {
+                const { selectedId, entities } = state();
+                return selectedId === null ? null : (entities[selectedId] ?? null);
+            },
+        }),
     });
 }
-
@@ -0,0 +1,70 @@
+import {
+  applyFilters,
+  DEFAULT_FILTERS,
+  filterChips,
+  filtersFromParams,
+  filtersToParams,
+} from './product-filters';
+import { productFixture } from '../shared/testing/product.fixture';
+
+const catalog = [
+  productFixture(1, {
+    title: 'Backpack',
+    price: 109.95,
+    category: "men's clothing",
+    rating: { rate: 3.9, count: 1 },
+  }),
+  productFixture(2, {
+    title: 'SSD drive',
+    price: 64,
+    description: 'Fast storage',
+    rating: { rate: 4.8, count: 1 },
+  }),
+  productFixture(3, { title: 'Monitor', price: 599, rating: { rate: 2.9, count: 1 } }),
+];
+
+describe('product filters', () => {
+  it('should filter by text over title and description', () => {
+    const result = applyFilters(catalog, { ...DEFAULT_FILTERS, query: 'storage' });
+
+    expect(result.map(({ id }) => id)).toEqual([2]);
+  });
+
+  it('should combine category, price range and rating', () => {
+    const result = applyFilters(catalog, {
+      ...DEFAULT_FILTERS,
+      category: 'electronics',
+      minPrice: 50,
+      maxPrice: 600,
+      minRating: 3,
+    });
+
+    expect(result.map(({ id }) => id)).toEqual([2]);
+  });
+
+  it('should sort without mutating the catalog', () => {
+    const result = applyFilters(catalog, { ...DEFAULT_FILTERS, sort: 'price-desc' });
+
+    expect(result.map(({ id }) => id)).toEqual([3, 1, 2]);
+    expect(catalog.map(({ id }) => id)).toEqual([1, 2, 3]);
+  });
+
+  it('should round-trip through query params', () => {
+    const filters = { ...DEFAULT_FILTERS, query: 'ssd', minRating: 4, sort: 'rating' as const };
+    const params = filtersToParams(filters);
+
+    expect(params['category']).toBeNull();
+    expect(params['page']).toBeNull();
+    expect(filtersFromParams(params)).toEqual(filters);
+  });
+
+  it('should ignore malformed params', () => {
+    expect(filtersFromParams({ minPrice: 'abc', sort: 'random' })).toEqual(DEFAULT_FILTERS);
+  });
+
+  it('should build one chip per active filter', () => {
+    const chips = filterChips({ ...DEFAULT_FILTERS, category: 'jewelery', maxPrice: 20 });
+
+    expect(chips.map(({ key }) => key)).toEqual(['category', 'maxPrice']);
+  });
+});
@@ -0,0 +1,132 @@
+import { Params } from '@angular/router';
+import {
+  FilterChip,
+  Product,
+  ProductFilters,
+  ProductSort,
+} from '../shared/interfaces/product.interface';
+
+export const DEFAULT_FILTERS: ProductFilters = {
+  query: '',
+  category: null,
+  minPrice: null,
+  maxPrice: null,
+  minRating: null,
+  sort: 'relevance',
+};
+
+export const SORT_OPTIONS: { value: ProductSort; label: string }[] = [
+  { value: 'relevance', label: 'Relevancia' },
+  { value: 'price-asc', label: 'Precio: menor a mayor' },
+  { value: 'price-desc', label: 'Precio: mayor a menor' },
+  { value: 'rating', label: 'Mejor valorados' },
+  { value: 'title', label: 'Nombre (A-Z)' },
+];
+
+/** Query param used in the URL for each filter */
+const PARAM_NAMES: Record<keyof ProductFilters, string> = {
+  query: 'q',
+  category: 'category',
+  minPrice: 'minPrice',
+  maxPrice: 'maxPrice',
+  minRating: 'minRating',
+  sort: 'sort',
+};
+
+function toNumber(value: unknown): number | null {
+  if (value === undefined || value === null || String(value).trim() === '') {
+    return null;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+}
+
+/** Reads filters from query params, ignoring anything malformed */
+export function filtersFromParams(params: Params): ProductFilters {
+  const sort = params[PARAM_NAMES.sort];
+
+  return {
+    query: String(params[PARAM_NAMES.query] ?? '').trim(),
+    category: params[PARAM_NAMES.category] || null,
+    minPrice: toNumber(params[PARAM_NAMES.minPrice]),
+    maxPrice: toNumber(params[PARAM_NAMES.maxPrice]),
+    minRating: toNumber(params[PARAM_NAMES.minRating]),
+    sort: SORT_OPTIONS.some(({ value }) => value === sort) ? sort : DEFAULT_FILTERS.sort,
+  };
+}
+
+/**
+ * Query params for the given filters. Defaults map to `null` so that
+ * `queryParamsHandling: 'merge'` removes them from the URL; the page is
+ * reset because the result set changes.
+ */
+export function filtersToParams(filters: ProductFilters): Params {
+  const params: Params = { page: null };
+
+  for (const key of Object.keys(PARAM_NAMES) as (keyof ProductFilters)[]) {
+    const value = filters[key];
+    params[PARAM_NAMES[key]] = value === DEFAULT_FILTERS[key] || value === '' ? null : value;
+  }
+
+  return params;
+}
+
+export function isFiltering(filters: ProductFilters): boolean {
+  return (Object.keys(DEFAULT_FILTERS) as (keyof ProductFilters)[]).some(
+    (key) => filters[key] !== DEFAULT_FILTERS[key],
+  );
+}
+
+const compareBy: Record<ProductSort, ((a: Product, b: Product) => number) | null> = {
+  relevance: null,
+  'price-asc': (a, b) => a.price - b.price,
+  'price-desc': (a, b) => b.price - a.price,
+  rating: (a, b) => b.rating.rate - a.rating.rate,
+  title: (a, b) => a.title.localeCompare(b.title),
+};
+
+/** Filters and sorts products; the input array is left untouched */
+export function applyFilters(products: Product[], filters: ProductFilters): Product[] {
+  const query = filters.query.toLowerCase();
+
+  const result = products.filter(
+    (product) =>
+      (!query ||
+        product.title.toLowerCase().includes(query) ||
+        product.description.toLowerCase().includes(query)) &&
+      (filters.category === null || product.category === filters.category) &&
+      (filters.minPrice === null || product.price >= filters.minPrice) &&
+      (filters.maxPrice === null || product.price <= filters.maxPrice) &&
+      (filters.minRating === null || product.rating.rate >= filters.minRating),
+  );
+
+  const compare = compareBy[filters.sort];
+  return compare ? result.sort(compare) : result;
+}
+
+/** One removable chip per active filter */
+export function filterChips(filters: ProductFilters): FilterChip[] {
+  const chips: FilterChip[] = [];
+
+  if (filters.query) {
+    chips.push({ key: 'query', label: `Búsqueda: "${filters.query}"` });
+  }
+  if (filters.category !== null) {
+    chips.push({ key: 'category', label: `Categoría: ${filters.category}` });
+  }
+  if (filters.minPrice !== null) {
+    chips.push({ key: 'minPrice', label: `Desde $${filters.minPrice}` });
+  }
+  if (filters.maxPrice !== null) {
+    chips.push({ key: 'maxPrice', label: `Hasta $${filters.maxPrice}` });
+  }
+  if (filters.minRating !== null) {
+    chips.push({ key: 'minRating', label: `★ ${filters.minRating} o más` });
+  }
+  if (filters.sort !== DEFAULT_FILTERS.sort) {
+    const option = SORT_OPTIONS.find(({ value }) => value === filters.sort);
+    chips.push({ key: 'sort', label: `Orden: ${option?.label}` });
+  }
+
+  return chips;
+}
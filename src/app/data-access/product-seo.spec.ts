@@ -0,0 +1,81 @@
+import { Product } from '../shared/interfaces/product.interface';
+import { DEFAULT_FILTERS } from './product-filters';
+import { categoryMeta, listingMeta, productJsonLd, productMeta, summarize } from './product-seo';
+import { productFixture } from '../shared/testing/product.fixture';
+
+const ring = (overrides: Partial<Product> = {}) =>
+  productFixture(7, {
+    title: 'White Gold Ring',
+    price: 9.9,
+    description: 'Classic  ring\nin white gold',
+    category: 'jewelery',
+    image: 'https://img.example.com/7.jpg',
+    rating: { rate: 4.6, count: 120 },
+    ...overrides,
+  });
+
+describe('product SEO', () => {
+  it('should cut long descriptions at a word boundary', () => {
+    expect(summarize('one two three four', 12)).toBe('one two…');
+    expect(summarize('  short \n text ')).toBe('short text');
+  });
+
+  it('should describe a product with its offer and rating', () => {
+    expect(productJsonLd(ring(), 'https://shop.example.com/product/7', 'USD')).toEqual({
+      '@context': 'https://schema.org',
+      '@type': 'Product',
+      name: 'White Gold Ring',
+      description: 'Classic  ring\nin white gold',
+      image: 'https://img.example.com/7.jpg',
+      sku: '7',
+      category: 'jewelery',
+      offers: {
+        '@type': 'Offer',
+        url: 'https://shop.example.com/product/7',
+        price: '9.90',
+        priceCurrency: 'USD',
+        availability: 'https://schema.org/InStock',
+      },
+      aggregateRating: {
+        '@type': 'AggregateRating',
+        ratingValue: 4.6,
+        ratingCount: 120,
+        bestRating: 5,
+      },
+    });
+  });
+
+  it('should leave out the rating, image and URL it does not have', () => {
+    const jsonLd = productJsonLd(ring({ image: '', rating: { rate: 0, count: 0 } }), null, 'USD');
+
+    expect(jsonLd['aggregateRating']).toBeUndefined();
+    expect(jsonLd['image']).toBeUndefined();
+    expect(jsonLd['offers']).not.toEqual(jasmine.objectContaining({ url: jasmine.anything() }));
+  });
+
+  it('should use the product as page metadata', () => {
+    const meta = productMeta(ring(), 'https://shop.example.com/product/7', 'EUR');
+
+    expect(meta.title).toBe('White Gold Ring');
+    expect(meta.description).toBe('Classic ring in white gold');
+    expect(meta.type).toBe('product');
+    expect(meta.image).toBe('https://img.example.com/7.jpg');
+  });
+
+  it('should name the active filters of a listing', () => {
+    const meta = listingMeta(
+      { ...DEFAULT_FILTERS, query: 'ring', category: 'jewelery', maxPrice: 50 },
+      2,
+    );
+
+    expect(meta.title).toBe('Resultados para "ring" · Jewelery · Página 2');
+    expect(meta.description).toBe(
+      'Productos de jewelery en nuestro catálogo. Búsqueda: "ring", Hasta $50.',
+    );
+  });
+
+  it('should title an unfiltered listing and a category', () => {
+    expect(listingMeta(DEFAULT_FILTERS, 1).title).toBe('Productos');
+    expect(categoryMeta("men's clothing").title).toBe("Men's Clothing");
+  });
+});
@@ -0,0 +1,94 @@
+import { Product, ProductFilters } from '../shared/interfaces/product.interface';
+import { JsonLd, PageMeta } from '../shared/interfaces/seo.interface';
+import { filterChips } from './product-filters';
+
+/** Search engines cut descriptions around this length. */
+const MAX_DESCRIPTION = 160;
+
+/** Collapses whitespace and cuts at a word boundary when too long */
+export function summarize(text: string, max = MAX_DESCRIPTION): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= max) {
+    return clean;
+  }
+
+  const cut = clean.slice(0, max - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).replace(/[\s,.;:]+$/, '')}…`;
+}
+
+function titleCase(text: string): string {
+  return text.replace(/(^|\s)\S/g, (letter) => letter.toUpperCase());
+}
+
+/**
+ * schema.org `Product` with its `Offer` and, once someone rated it, its
+ * `AggregateRating`. The API has no stock, so products are always in stock.
+ * The offer has no `url` when the page's own URL is unknown.
+ */
+export function productJsonLd(product: Product, url: string | null, currency: string): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    name: product.title,
+    description: product.description,
+    ...(product.image && { image: product.image }),
+    sku: String(product.id),
+    ...(product.category && { category: product.category }),
+    offers: {
+      '@type': 'Offer',
+      ...(url && { url }),
+      price: product.price.toFixed(2),
+      priceCurrency: currency,
+      availability: 'https://schema.org/InStock',
+    },
+    ...(product.rating.count > 0 && {
+      aggregateRating: {
+        '@type': 'AggregateRating',
+        ratingValue: product.rating.rate,
+        ratingCount: product.rating.count,
+        bestRating: 5,
+      },
+    }),
+  };
+}
+
+export function productMeta(product: Product, url: string | null, currency: string): PageMeta {
+  return {
+    title: product.title,
+    description: summarize(product.description || product.title),
+    image: product.image || undefined,
+    type: 'product',
+    jsonLd: productJsonLd(product, url, currency),
+  };
+}
+
+/** Title and description of the product list, naming the active filters */
+export function listingMeta(filters: ProductFilters, page: number): PageMeta {
+  const title = [
+    filters.query ? `Resultados para "${filters.query}"` : null,
+    filters.category ? titleCase(filters.category) : 'Productos',
+    page > 1 ? `Página ${page}` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  const intro = filters.category
+    ? `Productos de ${filters.category} en nuestro catálogo.`
+    : 'Explora todo nuestro catálogo de productos.';
+  const chips = filterChips(filters)
+    .filter(({ key }) => key !== 'category')
+    .map(({ label }) => label);
+
+  return {
+    title,
+    description: summarize(chips.length ? `${intro} ${chips.join(', ')}.` : intro),
+  };
+}
+
+export function categoryMeta(name: string): PageMeta {
+  return {
+    title: titleCase(name),
+    description: `Todos los productos de ${name}, con sus precios y valoraciones.`,
+  };
+}
@@ -0,0 +1,9 @@
+import { dedupePage } from './products-state.service';
+
+describe('dedupePage', () => {
+  it('should drop products already shown on other pages', () => {
+    const pages = { 1: [1, 2], 2: [3] };
+
+    expect(dedupePage(pages, 2, [2, 3, 4])).toEqual([3, 4]);
+  });
+});
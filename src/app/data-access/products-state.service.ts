@@ -1,47 +1,180 @@
-import { Injectable, inject } from "@angular/core";
-import { Product } from "../shared/interfaces/product.interface";
+import { Injectable, computed, inject } from "@angular/core";
+import { PaginationMode, Product, ProductFilters, ProductListQuery } from "../shared/interfaces/product.interface";
 import { ProductsService } from "./products.service";
-import { signalSlice } from 'ngxtension/signal-slice';
-import { map, startWith, switchMap } from "rxjs/operators";
-import { Subject, of } from "rxjs";
+import { applyFilters, DEFAULT_FILTERS, isFiltering } from "./product-filters";
+import { createEntityAdapter, createEntityStore, EntityStoreTools } from "../shared/data-access/entity-store";
+import { EntityState } from "../shared/interfaces/entity-store.interface";
+import { concatMap, map, switchMap } from "rxjs/operators";
+import { Observable, concat, defer, from, of } from "rxjs";
 import { catchError } from 'rxjs/operators';
 
-interface State {
-    products: Product[];
-    status: 'loading' | 'success' | 'error';
+export const PAGE_SIZE = 5;
+
+/** Pages and the catalog only hold ids, products live once in the entities */
+interface ListState {
+    pages: Record<number, number[]>;
     page: number;
+    pageSize: number;
+    lastPage: number | null;
+    mode: PaginationMode;
+    filters: ProductFilters;
+    catalog: number[] | null;
+    categories: string[];
 }
+
+type State = EntityState<Product, number> & ListState;
+
+/**
+ * Drops the products of a freshly fetched page that are already shown on
+ * another page (the API may shift items between requests).
+ */
+export function dedupePage(pages: Record<number, number[]>, page: number, ids: number[]): number[] {
+    const seen = new Set(
+        Object.entries(pages)
+            .filter(([key]) => Number(key) !== page)
+            .flatMap(([, pageIds]) => pageIds)
+    );
+    return ids.filter((id) => !seen.has(id));
+}
+
 @Injectable()
 export class ProductsStateService {
     private productsService = inject(ProductsService);
-    private initialState: State = {
-        products: [],
-        status: 'loading' as const,
+    private adapter = createEntityAdapter((product: Product) => product.id);
+    private initialState: ListState = {
+        pages: {},
         page: 1,
-
+        pageSize: PAGE_SIZE,
+        lastPage: null,
+        mode: 'pages',
+        filters: DEFAULT_FILTERS,
+        catalog: null,
+        categories: [],
     };
 
-    changePage$ = new Subject<number>();
+    loadCategories$ = this.productsService.getCategories().pipe(
+        map(categories => ({ categories })),
+        catchError(() => of({ categories: [] })),
+    );
 
-    loadProducts$ = this.changePage$.pipe(
-        startWith(1),
-        switchMap((page) => this.productsService.getProducts(page)),
-        map(products => ({ products, status: 'success' as const })),
-        catchError(() => { 
-            return of({ products: [], status: 'error' as const, });
+    state = createEntityStore({
+        name: 'products',
+        adapter: this.adapter,
+        initialState: this.initialState,
+        initialRequest: { status: 'loading' },
+        sources: [this.loadCategories$],
+        actionSources: ({ request }) => ({
+            load: (state, $: Observable<ProductListQuery>) => $.pipe(
+                switchMap(({ page, filters }) => concat(of({ filters }), defer(() => this.loadPages(state, page, request)))),
+            ),
+            setMode: (state, $: Observable<PaginationMode>) => $.pipe(
+                switchMap((mode) => concat(of({ mode }), defer(() => this.loadPages(state, state().page, request)))),
+            ),
         }),
-    );
+    });
+
+    /**
+     * Filtered and sorted catalog, or `null` while browsing unfiltered
+     * Filtering needs every product, not only the pages fetched so far
+     */
+    filtered = computed(() => {
+        const { catalog, filters, entities } = this.state();
+        if (!isFiltering(filters)) {
+            return null;
+        }
+        return catalog ? applyFilters(catalog.map((id) => entities[id]), filters) : [];
+    });
 
+    /** Products on screen: the current page, or every page up to it when scrolling */
+    products = computed(() => {
+        const { pages, page, mode, pageSize, entities } = this.state();
+        const filtered = this.filtered();
+        if (filtered) {
+            return filtered.slice(mode === 'pages' ? (page - 1) * pageSize : 0, page * pageSize);
+        }
+        const ids = mode === 'pages'
+            ? pages[page] ?? []
+            : Array.from({ length: page }, (_, index) => pages[index + 1] ?? []).flat();
+        return ids.map((id) => entities[id]);
+    });
 
+    hasMore = computed(() => {
+        const filtered = this.filtered();
+        if (filtered) {
+            return filtered.length > this.state.page() * this.state.pageSize();
+        }
+        return this.canLoad(this.state.lastPage(), this.state.page() + 1);
+    });
 
-    state = signalSlice({
-        initialState: this.initialState,
-        sources: [
-            this.changePage$.pipe(
-                map(page => ({ page, status: 'loading' as const })),
-            ),
-            this.loadProducts$,
-        ],
+    /** Page numbers that can be linked to: every known page plus the next one */
+    pageNumbers = computed(() => {
+        const filtered = this.filtered();
+        if (filtered) {
+            const total = Math.max(1, Math.ceil(filtered.length / this.state.pageSize()));
+            return Array.from({ length: total }, (_, index) => index + 1);
+        }
+        const known = Math.max(this.state.page(), ...Object.keys(this.state.pages()).map(Number));
+        const total = this.state.lastPage() ?? known + (this.hasMore() ? 1 : 0);
+        return Array.from({ length: total }, (_, index) => index + 1);
     });
-}
 
+    /**
+     * Sets the current page and fetches what is missing to show it: only that
+     * page in numbered mode, every previous page as well in infinite mode.
+     * Pages already fetched are never requested again. While filtering, the
+     * whole catalog is fetched once and paginated locally instead.
+     */
+    private loadPages(
+        state: () => State,
+        page: number,
+        request: EntityStoreTools<Product, State>['request'],
+    ): Observable<Partial<State>> {
+        const { pages, mode, filters, catalog } = state();
+
+        if (isFiltering(filters)) {
+            return catalog
+                ? of({ page, request: { status: 'success' as const } })
+                : concat(
+                    of({ page }),
+                    request(this.productsService.getAllProducts(), (products) => ({
+                        ...this.adapter.upsertMany(state(), products),
+                        catalog: products.map(({ id }) => id),
+                    })),
+                );
+        }
+
+        const wanted = mode === 'pages' ? [page] : Array.from({ length: page }, (_, index) => index + 1);
+        const missing = wanted.filter((number) => !pages[number] && this.canLoad(state().lastPage, number));
+
+        if (!missing.length) {
+            return of({ page, request: { status: 'success' as const } });
+        }
+
+        return concat(
+            of({ page }),
+            request(
+                from(missing).pipe(
+                    concatMap((number) => this.productsService
+                        .getProducts({ offset: (number - 1) * state().pageSize, limit: state().pageSize })
+                        .pipe(map((result) => ({ number, result })))
+                    ),
+                ),
+                ({ number, result }) => this.storePage(state(), number, result.items, result.hasMore),
+            ),
+        );
+    }
+
+    private storePage(state: State, page: number, items: Product[], hasMore: boolean): Partial<State> {
+        const lastPage = !items.length ? page - 1 : hasMore ? state.lastPage : page;
+        const ids = items.map(({ id }) => id);
+        return {
+            ...this.adapter.upsertMany(state, items),
+            pages: { ...state.pages, [page]: dedupePage(state.pages, page, ids) },
+            lastPage,
+        };
+    }
+
+    private canLoad(lastPage: number | null, page: number): boolean {
+        return lastPage === null || page <= lastPage;
+    }
+}
@@ -0,0 +1,98 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { firstValueFrom } from 'rxjs';
+import { ProductsService } from './products.service';
+import { DECODE_REPORTER } from '../shared/data-access/decoders';
+import { httpCacheInterceptor } from '../shared/data-access/http-cache.interceptor';
+import { productFixture } from '../shared/testing/product.fixture';
+
+describe('ProductsService', () => {
+  let service: ProductsService;
+  let http: HttpTestingController;
+  let report: jasmine.Spy;
+
+  beforeEach(() => {
+    report = jasmine.createSpy('report');
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([httpCacheInterceptor])),
+        provideHttpClientTesting(),
+        { provide: DECODE_REPORTER, useValue: report },
+      ],
+    });
+    service = TestBed.inject(ProductsService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => http.verify());
+
+  it('should return only the requested window and flag a next page', async () => {
+    const page = firstValueFrom(service.getProducts({ offset: 5, limit: 5 }));
+
+    const request = http.expectOne((req) => req.url.endsWith('/products'));
+    expect(request.request.params.keys()).toEqual([]);
+    request.flush([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11].map((id) => productFixture(id)));
+
+    const result = await page;
+    expect(result.items.map(({ id }) => id)).toEqual([6, 7, 8, 9, 10]);
+    expect(result.hasMore).toBeTrue();
+  });
+
+  it('should page the cached catalog without a new request', async () => {
+    const first = firstValueFrom(service.getProducts({ offset: 0, limit: 2 }));
+    http
+      .expectOne((req) => req.url.endsWith('/products'))
+      .flush([1, 2, 3].map((id) => productFixture(id)));
+    await first;
+
+    const second = await firstValueFrom(service.getProducts({ offset: 2, limit: 2 }));
+
+    http.expectNone((req) => req.url.endsWith('/products'));
+    expect(second.items.map(({ id }) => id)).toEqual([3]);
+    expect(second.hasMore).toBeFalse();
+  });
+
+  it('should report the last page', async () => {
+    const page = firstValueFrom(service.getProducts({ offset: 5, limit: 5 }));
+
+    http
+      .expectOne((req) => req.url.endsWith('/products'))
+      .flush([1, 2, 3, 4, 5, 6, 7].map((id) => productFixture(id)));
+
+    const result = await page;
+    expect(result.items.map(({ id }) => id)).toEqual([6, 7]);
+    expect(result.hasMore).toBeFalse();
+  });
+
+  it('should encode the category in the URL', () => {
+    service.getProductsByCategory("men's clothing").subscribe();
+
+    http.expectOne((req) => req.url.endsWith("/products/category/men's%20clothing")).flush([]);
+  });
+
+  it('should turn an empty product response into a 404', (done) => {
+    service.getProduct('999').subscribe({
+      error: (error) => {
+        expect(error.status).toBe(404);
+        done();
+      },
+    });
+
+    http.expectOne((req) => req.url.endsWith('/products/999')).flush(null);
+  });
+
+  it('should drop malformed products and report them', async () => {
+    const products = firstValueFrom(service.getAllProducts());
+
+    http
+      .expectOne((req) => req.url.endsWith('/products'))
+      .flush([productFixture(1), { id: 2, title: 'No price' }]);
+
+    expect((await products).map(({ id }) => id)).toEqual([1]);
+    expect(report).toHaveBeenCalledWith(
+      'GET /products',
+      jasmine.arrayContaining([jasmine.objectContaining({ path: '$[1].price' })]),
+    );
+  });
+});
@@ -1,21 +1,74 @@
-import { Injectable } from "@angular/core";
+import { Injectable, inject } from "@angular/core";
 import { BaseHttpService } from "../shared/data-access/base-http.service";
-import { Observable } from "rxjs";
-import { Product } from "../shared/interfaces/product.interface";
+import { HttpCacheService } from "../shared/data-access/http-cache.service";
+import { HttpErrorResponse } from "@angular/common/http";
+import { map, Observable, tap } from "rxjs";
+import { PageRequest, Product, ProductPage } from "../shared/interfaces/product.interface";
+import { categoryListDecoder, productDecoder, productListDecoder } from "./api-decoders";
 
 
-const LIMIT = 5;
 @Injectable({providedIn: 'root'})
 export class ProductsService extends BaseHttpService {
-    getProducts(page: number):Observable<Product[]> {
-        return this.http.get<any[]>(`${this.apiUrl}/products`, {
-            params: {
-                limit: page * LIMIT,
-            }
-            });
+    private cache = inject(HttpCacheService);
+
+    /**
+     * One page of the catalog.
+     * The Fake Store API only understands `limit`, not an offset, so the whole
+     * catalog is fetched and paged here. `httpCacheInterceptor` answers the
+     * following pages from memory instead of downloading the earlier ones again.
+     */
+    getProducts({ offset, limit }: PageRequest): Observable<ProductPage> {
+        return this.getAllProducts().pipe(
+            map((products) => ({
+                items: products.slice(offset, offset + limit),
+                offset,
+                limit,
+                hasMore: products.length > offset + limit,
+            })),
+        );
+    }
+    /** The whole catalog, used when filtering or sorting across every page */
+    getAllProducts(): Observable<Product[]> {
+        return this.http.get<unknown>(`${this.apiUrl}/products`).pipe(
+            this.decode(productListDecoder, 'GET /products'),
+            tap((products) => this.primeDetails(products)),
+        );
+    }
+    getCategories(): Observable<string[]> {
+        return this.http.get<unknown>(`${this.apiUrl}/products/categories`).pipe(
+            this.decode(categoryListDecoder, 'GET /products/categories'),
+        );
     }
+    getProductsByCategory(category: string): Observable<Product[]> {
+        return this.http.get<unknown>(`${this.apiUrl}/products/category/${encodeURIComponent(category)}`).pipe(
+            this.decode(productListDecoder, 'GET /products/category/:name'),
+            tap((products) => this.primeDetails(products)),
+        );
+    }
+    /**
+     * The Fake Store API answers unknown ids with an empty 200, which is
+     * turned into a proper 404 so callers only deal with one error model.
+     */
     getProduct(id: string): Observable<Product> {
-        return this.http.get<Product>(`${this.apiUrl}/products/${id}`);
+        const url = `${this.apiUrl}/products/${id}`;
+        return this.http.get<unknown>(url).pipe(
+            map((product) => {
+                if (!product) {
+                    throw new HttpErrorResponse({ status: 404, statusText: 'Not Found', url });
+                }
+                return product;
+            }),
+            this.decode(productDecoder, 'GET /products/:id'),
+        );
+    }
 
+    /**
+     * List responses already contain every product, so the detail page can
+     * render from the cache instead of waiting for `/products/:id`.
+     */
+    private primeDetails(products: Product[]): void {
+        for (const product of products) {
+            this.cache.prime(`${this.apiUrl}/products/${product.id}`, product);
+        }
     }
 }
@@ -0,0 +1,17 @@
+import { Component, input } from '@angular/core';
+import { RouterLink } from '@angular/router';
+
+/**
+ * 404 page. Used by the wildcard route and embedded by pages whose
+ * resource turned out not to exist (e.g. an unknown product id).
+ */
+@Component({
+  selector: 'app-not-found',
+  imports: [RouterLink],
+  templateUrl: './not-found.html',
+  styles: ``,
+})
+export default class NotFound {
+  title = input('Página no encontrada');
+  message = input('La página que buscas no existe o fue movida.');
+}
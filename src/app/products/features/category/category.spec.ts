@@ -0,0 +1,28 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
+
+import Category from './category';
+
+describe('Category', () => {
+  let component: Category;
+  let fixture: ComponentFixture<Category>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [Category],
+      providers: [provideHttpClient(), provideHttpClientTesting(), provideRouter([])]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(Category);
+    fixture.componentRef.setInput('name', 'electronics');
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,45 @@
+import { Component, effect, inject, input, untracked } from '@angular/core';
+import { TitleCasePipe } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { CategoryStateService } from '../../../data-access/category-state.service';
+import { CartStateService } from '../../../shared/data-access/cart-state.service';
+import { WishlistStateService } from '../../../shared/data-access/wishlist-state.service';
+import { Product } from '../../../shared/interfaces/product.interface';
+import { ProductCard } from '../../ui/product-card/product-card';
+import { SeoService } from '../../../shared/data-access/seo.service';
+import { categoryMeta } from '../../../data-access/product-seo';
+
+/**
+ * Landing page for one category (`/category/:name`).
+ */
+@Component({
+  selector: 'app-category',
+  imports: [ProductCard, RouterLink, TitleCasePipe],
+  templateUrl: './category.html',
+  styles: ``,
+  providers: [CategoryStateService],
+})
+export default class Category {
+  categoryState = inject(CategoryStateService).state;
+  private cartService = inject(CartStateService);
+  wishlist = inject(WishlistStateService);
+
+  name = input.required<string>();
+
+  constructor() {
+    effect(() => {
+      const name = this.name();
+      untracked(() => this.categoryState.load(name));
+    });
+
+    inject(SeoService).bind(() => categoryMeta(this.name()));
+  }
+
+  addToCart(product: Product) {
+    this.cartService.state.add({ product, quantity: 1 });
+  }
+
+  retry() {
+    this.categoryState.load(this.name());
+  }
+}
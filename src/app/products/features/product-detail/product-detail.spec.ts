@@ -1,6 +1,12 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
+import { of } from 'rxjs';
+import { ProductsService } from '../../../data-access/products.service';
+import { productFixture } from '../../../shared/testing/product.fixture';
 
-import { ProductDetail } from './product-detail';
+import ProductDetail from './product-detail';
 
 describe('ProductDetail', () => {
   let component: ProductDetail;
@@ -8,11 +14,13 @@ describe('ProductDetail', () => {
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [ProductDetail]
+      imports: [ProductDetail],
+      providers: [provideHttpClient(), provideHttpClientTesting(), provideRouter([])]
     })
     .compileComponents();
 
     fixture = TestBed.createComponent(ProductDetail);
+    fixture.componentRef.setInput('id', '1');
     component = fixture.componentInstance;
     fixture.detectChanges();
   });
@@ -21,3 +29,23 @@ describe('ProductDetail', () => {
     expect(component).toBeTruthy();
   });
 });
+
+describe('ProductDetail with a cached product', () => {
+  it('should request the product once', async () => {
+    TestBed.configureTestingModule({
+      imports: [ProductDetail],
+      providers: [provideHttpClient(), provideHttpClientTesting(), provideRouter([])],
+    });
+    const getProduct = spyOn(TestBed.inject(ProductsService), 'getProduct').and.returnValue(
+      of(productFixture(1)),
+    );
+
+    const fixture = TestBed.createComponent(ProductDetail);
+    fixture.componentRef.setInput('id', '1');
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    expect(getProduct).toHaveBeenCalledTimes(1);
+    expect(fixture.componentInstance.productDetailState.product()?.id).toBe(1);
+  });
+});
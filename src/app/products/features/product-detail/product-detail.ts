@@ -1,12 +1,24 @@
-import { Component, effect, input } from '@angular/core';
+import { Component, computed, effect, input, linkedSignal, untracked } from '@angular/core';
 import { inject } from '@angular/core';
 import { ProductDetailStateService } from '../../../data-access/product-detail-state.service';
 import { CurrencyPipe } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import NotFound from '../../../not-found/not-found';
+import { WishlistStateService } from '../../../shared/data-access/wishlist-state.service';
+import { RecentlyViewedService } from '../../../shared/data-access/recently-viewed.service';
+import { RecentlyViewed } from '../../../shared/ui/recently-viewed/recently-viewed';
+import { RecommendationService } from '../../../shared/data-access/recommendation.service';
+import { Recommendations } from '../../../shared/ui/recommendations/recommendations';
+import { CartStateService } from '../../../shared/data-access/cart-state.service';
+import { Product } from '../../../shared/interfaces/product.interface';
+import { QuantityStepper } from '../../../shared/ui/quantity-stepper/quantity-stepper';
+import { SeoService } from '../../../shared/data-access/seo.service';
+import { productMeta } from '../../../data-access/product-seo';
 
 
 @Component({
   selector: 'app-product-detail',
-  imports: [CurrencyPipe],
+  imports: [CurrencyPipe, RouterLink, NotFound, RecentlyViewed, Recommendations, QuantityStepper],
   templateUrl: './product-detail.html',
   styles: ``,
   providers: [ProductDetailStateService],
@@ -14,13 +26,68 @@ import { CurrencyPipe } from '@angular/common';
 export default class ProductDetail {
 
   productDetailState = inject(ProductDetailStateService).state;
+  wishlist = inject(WishlistStateService);
+  private recentlyViewed = inject(RecentlyViewedService);
+  private cartService = inject(CartStateService);
+  private seo = inject(SeoService);
+
+  related = inject(RecommendationService).forProduct(this.productDetailState.product);
 
   id = input.required<string>();
 
+  /** Units to add; back to 1 whenever another product is opened. */
+  quantity = linkedSignal(() => {
+    this.id();
+    return 1;
+  });
+
+  inCart = computed(() => {
+    const product = this.productDetailState.product();
+    return product ? this.cartService.quantityOf(product.id) : 0;
+  });
+
   constructor() {
     effect(() => {
-      this.productDetailState.getById(this.id());
+      const id = this.id();
+      untracked(() => this.productDetailState.getById(id));
+    });
+
+    effect(() => {
+      const product = this.productDetailState.product();
+      if (product) {
+        untracked(() => this.recentlyViewed.state.record(product));
+      }
+    });
+
+    this.seo.bind(() => {
+      const product = this.productDetailState.product();
+      return product
+        ? productMeta(product, this.seo.absoluteUrl(`/product/${product.id}`), this.seo.config.currency)
+        : null;
     });
 
   }
+
+  addToCart() {
+    const product = this.productDetailState.product();
+    if (product) {
+      this.cartService.state.add({ product, quantity: this.quantity() });
+    }
+  }
+
+  /** Makes the cart line hold exactly the selected quantity. */
+  updateCartLine() {
+    const product = this.productDetailState.product();
+    if (product) {
+      this.cartService.state.setQuantity({ id: product.id, quantity: this.quantity() });
+    }
+  }
+
+  addRelated(product: Product) {
+    this.cartService.state.add({ product, quantity: 1 });
+  }
+
+  retry() {
+    this.productDetailState.getById(this.id());
+  }
 }
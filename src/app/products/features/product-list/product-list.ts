@@ -22,11 +22,27 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 // 📦 IMPORTS SECTION
 // ═══════════════════════════════════════════════════════════════════════════════
-import { Component, inject } from '@angular/core';
+import { Component, computed, effect, inject, input, untracked } from '@angular/core';
+import { Router } from '@angular/router';
 import { ProductsStateService } from '../../../data-access/products-state.service';
 import { ProductCard } from '../../ui/product-card/product-card';
+import { ProductFiltersBar } from '../../ui/product-filters/product-filters';
+import { InfiniteScroll } from '../../../shared/ui/infinite-scroll/infinite-scroll';
+import { RecentlyViewed } from '../../../shared/ui/recently-viewed/recently-viewed';
 import { CartStateService } from '../../../shared/data-access/cart-state.service';
-import { Product } from '../../../shared/interfaces/product.interface';
+import { WishlistStateService } from '../../../shared/data-access/wishlist-state.service';
+import {
+  DEFAULT_FILTERS,
+  filtersFromParams,
+  filtersToParams,
+} from '../../../data-access/product-filters';
+import { listingMeta } from '../../../data-access/product-seo';
+import { SeoService } from '../../../shared/data-access/seo.service';
+import {
+  PaginationMode,
+  Product,
+  ProductFilters,
+} from '../../../shared/interfaces/product.interface';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🧠 SMART COMPONENT DEFINITION
@@ -50,7 +66,7 @@ import { Product } from '../../../shared/interfaces/product.interface';
 @Component({
   selector: 'app-product-list',
   standalone: true, // 🎯 Standalone component architecture
-  imports: [ProductCard], // 📥 Import child components
+  imports: [ProductCard, ProductFiltersBar, InfiniteScroll, RecentlyViewed], // 📥 Import child components and directives
   templateUrl: './product-list.html',
   providers: [ProductsStateService], // 🔧 Component-level service provider
 })
@@ -83,6 +99,60 @@ export default class ProductList {
    */
   productState = inject(ProductsStateService);
   private cartService = inject(CartStateService);
+  wishlist = inject(WishlistStateService);
+  private router = inject(Router);
+  private seo = inject(SeoService);
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // 🔗 URL-DRIVEN PAGINATION
+  // ───────────────────────────────────────────────────────────────────────────
+  /**
+   * 🎓 LEARNING: Query Params as Component Inputs
+   *
+   * With withComponentInputBinding(), `?page=3` arrives here as an input
+   * The URL is the single source of truth for the current page:
+   * - Buttons navigate, the input changes, the effect loads the page
+   * - Reloading or sharing the link restores the same page
+   */
+  page = input<string>();
+
+  /**
+   * 🔍 Filters live in the URL too (?q=&category=&minPrice=&maxPrice=&minRating=&sort=)
+   * so a filtered view can be shared, bookmarked and restored on reload
+   */
+  q = input<string>();
+  category = input<string>();
+  minPrice = input<string>();
+  maxPrice = input<string>();
+  minRating = input<string>();
+  sort = input<string>();
+
+  defaultFilters = DEFAULT_FILTERS;
+
+  filters = computed(() =>
+    filtersFromParams({
+      q: this.q(),
+      category: this.category(),
+      minPrice: this.minPrice(),
+      maxPrice: this.maxPrice(),
+      minRating: this.minRating(),
+      sort: this.sort(),
+    })
+  );
+
+  /** Anything that is not a positive page number means the first page */
+  currentPage = computed(() => Math.max(1, Math.floor(Number(this.page())) || 1));
+
+  constructor() {
+    effect(() => {
+      const page = this.currentPage();
+      const filters = this.filters();
+      untracked(() => this.productState.state.load({ page, filters }));
+    });
+
+    // 🔎 Title and description name the active filters, e.g. "Electronics · Página 2"
+    this.seo.bind(() => listingMeta(this.filters(), this.currentPage()));
+  }
 
   // ───────────────────────────────────────────────────────────────────────────
   // 🎬 USER INTERACTION HANDLERS
@@ -91,18 +161,53 @@ export default class ProductList {
    * 🎓 LEARNING: Pagination Pattern
    * 
    * This method demonstrates reactive pagination:
-   * - Reads current page from state signal
-   * - Increments page number
-   * - Triggers data reload through reactive stream
+   * - Writes the requested page to the URL
+   * - The `page` input picks it up and the state loads it
+   * - Pages already fetched are shown instantly from state
    * 
    * 🔍 Reactive Pattern Benefits:
    * - Automatic UI updates when state changes
    * - Centralized loading state management
    * - Error handling in one place
    */
-  changePage() {
-    const page = this.productState.state.page() + 1;
-    this.productState.changePage$.next(page);
+  changePage(page: number) {
+    this.router.navigate([], {
+      queryParams: { page },
+      queryParamsHandling: 'merge',
+    });
+  }
+
+  /**
+   * 🔍 New filters from the filter bar go to the URL (and back to page 1)
+   */
+  onFiltersChange(filters: ProductFilters) {
+    this.router.navigate([], {
+      queryParams: filtersToParams(filters),
+      queryParamsHandling: 'merge',
+    });
+  }
+
+  /**
+   * ♾️ Infinite scroll: the sentinel below the grid became visible
+   * The URL is replaced (not pushed) so Back doesn't step through every batch
+   */
+  loadMore() {
+    if (!this.productState.hasMore() || this.productState.state.status() === 'loading') {
+      return;
+    }
+
+    this.router.navigate([], {
+      queryParams: { page: this.productState.state.page() + 1 },
+      queryParamsHandling: 'merge',
+      replaceUrl: true,
+    });
+  }
+
+  /**
+   * 🔀 Switch between numbered pages and infinite scroll
+   */
+  setMode(mode: PaginationMode) {
+    this.productState.state.setMode(mode);
   }
 
   /**
@@ -123,9 +228,7 @@ export default class ProductList {
       product, 
       quantity: 1,
     });
-    
-    // 📝 Development logging for debugging
-    console.log('🛒 Adding product to cart:', product.title);
+    // 🔔 The cart store confirms the addition with a toast
   }
 }
 
@@ -139,6 +242,8 @@ export default class ProductList {
 ║   • Multiple service injection and coordination                             ║
 ║   • Event handling from child components                                    ║
 ║   • Reactive pagination with signal-based state                             ║
+║   • Filters, sorting and search synced to the URL                           ║
+║   • SEO title and description built from the active filters                 ║
 ║   • Data transformation between component layers                            ║
 ║   • Component-level service providers                                       ║
 ║                                                                              ║
@@ -1,7 +1,10 @@
 import { Routes } from '@angular/router';
 
 export default [
-    {path: 'products', loadComponent: () => import('../product-list/product-list')},    
-    {path: 'product/:id', loadComponent: () => import('../product-detail/product-detail')},
-    {path: 'cart', loadChildren: () => import('../../../cart/cart.route')}
+    {path: 'products', title: 'Productos', loadComponent: () => import('../product-list/product-list')},    
+    {path: 'product/:id', title: 'Producto', loadComponent: () => import('../product-detail/product-detail')},
+    {path: 'category/:name', title: 'Categoría', loadComponent: () => import('../category/category')},
+    {path: 'cart', title: 'Carrito', loadChildren: () => import('../../../cart/cart.route')},
+    {path: 'wishlist', title: 'Favoritos', loadChildren: () => import('../../../wishlist/wishlist.route')},
+    {path: 'checkout', title: 'Checkout', loadChildren: () => import('../../../checkout/checkout.route')}
 ] as Routes;
\ No newline at end of file
@@ -73,6 +73,12 @@ export class ProductCard {
    * - Better integration with computed signals
    */
   product = input.required<Product>();
+
+  /**
+   * ❤️ Whether the product is in the wishlist (drives the heart icon)
+   * Optional input with a default: parents without a wishlist can ignore it
+   */
+  favorite = input(false);
   
   // ───────────────────────────────────────────────────────────────────────────
   // 📤 OUTPUT PROPERTIES - EVENT FLOW OUT
@@ -90,6 +96,7 @@ export class ProductCard {
    * Parent Component → Input → Child Component → Output → Parent Component
    */
   addToCart = output<Product>();
+  toggleFavorite = output<Product>();
   
   // ───────────────────────────────────────────────────────────────────────────
   // 🎬 EVENT HANDLERS
@@ -121,6 +128,15 @@ export class ProductCard {
     // Parent component will handle the actual cart logic
     this.addToCart.emit(this.product());  
   }
+
+  /**
+   * ❤️ Same propagation rules as add(): the heart sits inside the card link
+   */
+  onToggleFavorite(event: Event) {
+    event.stopPropagation();
+    event.preventDefault();
+    this.toggleFavorite.emit(this.product());
+  }
 }
 
 /*
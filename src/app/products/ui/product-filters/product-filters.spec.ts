@@ -0,0 +1,25 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { DEFAULT_FILTERS } from '../../../data-access/product-filters';
+import { ProductFiltersBar } from './product-filters';
+
+describe('ProductFiltersBar', () => {
+  let component: ProductFiltersBar;
+  let fixture: ComponentFixture<ProductFiltersBar>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ProductFiltersBar],
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ProductFiltersBar);
+    fixture.componentRef.setInput('filters', DEFAULT_FILTERS);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,74 @@
+import { Component, computed, input, output } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { debounceTime, distinctUntilChanged, Subject } from 'rxjs';
+import {
+  DEFAULT_FILTERS,
+  filterChips,
+  isFiltering,
+  SORT_OPTIONS,
+} from '../../../data-access/product-filters';
+import { ProductFilters, ProductSort } from '../../../shared/interfaces/product.interface';
+
+/**
+ * Search box, filter controls and active-filter chips for the catalog.
+ * Every change is emitted as a whole new filter set; the page owning the
+ * URL decides what to do with it.
+ */
+@Component({
+  selector: 'app-product-filters',
+  templateUrl: './product-filters.html',
+  styles: ``,
+})
+export class ProductFiltersBar {
+  filters = input.required<ProductFilters>();
+  categories = input<string[]>([]);
+
+  filtersChange = output<ProductFilters>();
+
+  sortOptions = SORT_OPTIONS;
+  ratingOptions = [4, 3, 2, 1];
+  chips = computed(() => filterChips(this.filters()));
+  active = computed(() => isFiltering(this.filters()));
+
+  private search$ = new Subject<string>();
+
+  constructor() {
+    this.search$
+      .pipe(debounceTime(300), distinctUntilChanged(), takeUntilDestroyed())
+      .subscribe((query) => this.update({ query: query.trim() }));
+  }
+
+  onSearch(event: Event) {
+    this.search$.next((event.target as HTMLInputElement).value);
+  }
+
+  onCategory(event: Event) {
+    this.update({ category: (event.target as HTMLSelectElement).value || null });
+  }
+
+  onPrice(key: 'minPrice' | 'maxPrice', event: Event) {
+    const value = (event.target as HTMLInputElement).value;
+    this.update({ [key]: value === '' ? null : Math.max(0, Number(value)) });
+  }
+
+  onRating(event: Event) {
+    const value = (event.target as HTMLSelectElement).value;
+    this.update({ minRating: value ? Number(value) : null });
+  }
+
+  onSort(event: Event) {
+    this.update({ sort: (event.target as HTMLSelectElement).value as ProductSort });
+  }
+
+  removeChip(key: keyof ProductFilters) {
+    this.update({ [key]: DEFAULT_FILTERS[key] });
+  }
+
+  clear() {
+    this.filtersChange.emit(DEFAULT_FILTERS);
+  }
+
+  private update(changes: Partial<ProductFilters>) {
+    this.filtersChange.emit({ ...this.filters(), ...changes });
+  }
+}
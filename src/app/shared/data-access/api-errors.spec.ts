@@ -0,0 +1,68 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { defer, Observable, of, throwError } from 'rxjs';
+import { isTransient, retryWithBackoff, toApiError } from './api-errors';
+
+const httpError = (status: number) => new HttpErrorResponse({ status });
+
+describe('api errors', () => {
+  it('should classify HTTP failures', () => {
+    expect(toApiError(httpError(404)).kind).toBe('not-found');
+    expect(toApiError(httpError(0)).kind).toBe('network');
+    expect(toApiError(httpError(503)).kind).toBe('server');
+    expect(toApiError(httpError(400)).kind).toBe('unknown');
+    expect(toApiError(new Error('boom'))).toEqual(
+      jasmine.objectContaining({ kind: 'unknown', status: 0 }),
+    );
+  });
+
+  it('should only treat network, timeout, throttling and server errors as transient', () => {
+    expect([0, 408, 429, 500, 502].every((status) => isTransient(httpError(status)))).toBeTrue();
+    expect([400, 401, 404].some((status) => isTransient(httpError(status)))).toBeFalse();
+  });
+
+  describe('retryWithBackoff', () => {
+    const failingTimes = (failures: number[], status: number): Observable<string> => {
+      let attempt = 0;
+      return defer(() => {
+        attempt++;
+        return attempt <= failures.length ? throwError(() => httpError(status)) : of('ok');
+      });
+    };
+
+    it('should recover from transient failures', (done) => {
+      failingTimes([1, 2], 503)
+        .pipe(retryWithBackoff({ maxRetries: 3, baseDelay: 1 }))
+        .subscribe((value) => {
+          expect(value).toBe('ok');
+          done();
+        });
+    });
+
+    it('should not retry permanent failures', (done) => {
+      let attempts = 0;
+      defer(() => {
+        attempts++;
+        return throwError(() => httpError(404));
+      })
+        .pipe(retryWithBackoff({ maxRetries: 3, baseDelay: 1 }))
+        .subscribe({
+          error: (error) => {
+            expect(error.status).toBe(404);
+            expect(attempts).toBe(1);
+            done();
+          },
+        });
+    });
+
+    it('should give up after the configured retries', (done) => {
+      failingTimes([1, 2, 3], 500)
+        .pipe(retryWithBackoff({ maxRetries: 2, baseDelay: 1 }))
+        .subscribe({
+          error: (error) => {
+            expect(error.status).toBe(500);
+            done();
+          },
+        });
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { InjectionToken } from '@angular/core';
+import { MonoTypeOperatorFunction, retry, throwError, timer } from 'rxjs';
+import { ApiError, ApiErrorKind, RetryPolicy } from '../interfaces/api-error.interface';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelay: 500,
+};
+
+export const RETRY_POLICY = new InjectionToken<RetryPolicy>('RETRY_POLICY', {
+  providedIn: 'root',
+  factory: () => DEFAULT_RETRY_POLICY,
+});
+
+const MESSAGES: Record<ApiErrorKind, string> = {
+  'not-found': 'No encontramos lo que buscas.',
+  network: 'No hay conexión con el servidor. Revisa tu conexión a internet.',
+  server: 'El servidor tuvo un problema. Inténtalo de nuevo en unos minutos.',
+  unknown: 'Algo salió mal. Inténtalo de nuevo.',
+};
+
+export function errorKind(status: number): ApiErrorKind {
+  if (status === 0) {
+    return 'network';
+  }
+  if (status === 404) {
+    return 'not-found';
+  }
+  if (status >= 500) {
+    return 'server';
+  }
+  return 'unknown';
+}
+
+/** Maps anything thrown by a request pipeline to an `ApiError`. */
+export function toApiError(error: unknown): ApiError {
+  const status = error instanceof HttpErrorResponse ? error.status : -1;
+  const kind = status === -1 ? 'unknown' : errorKind(status);
+
+  return { kind, status: Math.max(status, 0), message: MESSAGES[kind] };
+}
+
+/** Network failures, 5xx, 408 and 429 are worth retrying; the rest will fail again. */
+export function isTransient(error: unknown): boolean {
+  if (!(error instanceof HttpErrorResponse)) {
+    return false;
+  }
+  return error.status === 0 || error.status === 408 || error.status === 429 || error.status >= 500;
+}
+
+/**
+ * Retries transient failures with exponential backoff
+ * (`baseDelay`, `2 × baseDelay`, `4 × baseDelay`…). Other errors go through at once.
+ */
+export function retryWithBackoff<T>(policy: RetryPolicy): MonoTypeOperatorFunction<T> {
+  return retry({
+    count: policy.maxRetries,
+    delay: (error, attempt) =>
+      isTransient(error) ? timer(policy.baseDelay * 2 ** (attempt - 1)) : throwError(() => error),
+  });
+}
@@ -0,0 +1,115 @@
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { PLATFORM_ID, TransferState } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom } from 'rxjs';
+import {
+  APP_CONFIG,
+  AppConfigError,
+  APP_CONFIG_STATE_KEY,
+  AppConfigService,
+  DEFAULT_APP_CONFIG,
+  parseAppConfig,
+} from './app-config.service';
+
+describe('parseAppConfig', () => {
+  it('should fill missing keys with the defaults', () => {
+    const config = parseAppConfig({
+      apiUrl: 'https://api.example.com/',
+      features: { recommendations: false },
+    });
+
+    expect(config).toEqual({
+      apiUrl: 'https://api.example.com',
+      siteUrl: null,
+      features: { ...DEFAULT_APP_CONFIG.features, recommendations: false },
+      timeouts: DEFAULT_APP_CONFIG.timeouts,
+    });
+  });
+
+  it('should take the site URL without its trailing slash', () => {
+    expect(parseAppConfig({ siteUrl: 'https://shop.example.com/' }).siteUrl).toBe(
+      'https://shop.example.com',
+    );
+  });
+
+  it('should report every invalid key', () => {
+    expect(() =>
+      parseAppConfig({
+        apiUrl: 'ftp://x',
+        siteUrl: 'shop.example.com',
+        features: { dark: true },
+        timeouts: { request: -1 },
+      }),
+    ).toThrowMatching(
+      (error) =>
+        error instanceof AppConfigError &&
+        error.message.includes('apiUrl') &&
+        error.message.includes('siteUrl') &&
+        error.message.includes('features.dark') &&
+        error.message.includes('timeouts.request'),
+    );
+  });
+
+  it('should reject anything but an object', () => {
+    expect(() => parseAppConfig([])).toThrowError(AppConfigError);
+  });
+});
+
+describe('AppConfigService', () => {
+  let service: AppConfigService;
+  let backend: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    service = TestBed.inject(AppConfigService);
+    backend = TestBed.inject(HttpTestingController);
+  });
+
+  it('should expose the loaded config through APP_CONFIG', async () => {
+    const loaded = firstValueFrom(service.load('config.json'));
+    backend.expectOne('config.json').flush({ apiUrl: 'https://staging.example.com' });
+    await loaded;
+
+    expect(TestBed.inject(APP_CONFIG).apiUrl).toBe('https://staging.example.com');
+  });
+
+  it('should keep the defaults when there is no config file', async () => {
+    spyOn(console, 'warn');
+    const loaded = firstValueFrom(service.load('config.json'));
+    backend.expectOne('config.json').flush(null, { status: 404, statusText: 'Not Found' });
+
+    expect(await loaded).toEqual(DEFAULT_APP_CONFIG);
+  });
+
+  it('should reuse the config transferred by the server', async () => {
+    const config = { ...DEFAULT_APP_CONFIG, apiUrl: 'https://ssr.example.com' };
+    TestBed.inject(TransferState).set(APP_CONFIG_STATE_KEY, config);
+
+    expect(await firstValueFrom(service.load('config.json'))).toEqual(config);
+    backend.expectNone('config.json');
+  });
+});
+
+describe('AppConfigService on the server', () => {
+  it('should load the config from an absolute url and transfer it', async () => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: PLATFORM_ID, useValue: 'server' },
+      ],
+    });
+    const loaded = firstValueFrom(TestBed.inject(AppConfigService).load('config.json'));
+    TestBed.inject(HttpTestingController)
+      .expectOne((request) => /^https?:\/\/.+\/config\.json$/.test(request.url))
+      .flush({ apiUrl: 'https://staging.example.com' });
+    await loaded;
+
+    expect(TestBed.inject(TransferState).get(APP_CONFIG_STATE_KEY, null)?.apiUrl).toBe(
+      'https://staging.example.com',
+    );
+  });
+});
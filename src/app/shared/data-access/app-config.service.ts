@@ -0,0 +1,183 @@
+import { isPlatformBrowser, PlatformLocation } from '@angular/common';
+import { HttpBackend, HttpClient, HttpErrorResponse } from '@angular/common/http';
+import {
+  DOCUMENT,
+  EnvironmentProviders,
+  inject,
+  Injectable,
+  InjectionToken,
+  isDevMode,
+  makeStateKey,
+  PLATFORM_ID,
+  provideAppInitializer,
+  signal,
+  TransferState,
+} from '@angular/core';
+import { catchError, map, Observable, of, tap, throwError } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import { AppConfig } from '../interfaces/app-config.interface';
+
+export const DEFAULT_APP_CONFIG: AppConfig = {
+  apiUrl: environment.API_URL,
+  siteUrl: null,
+  features: {
+    recommendations: true,
+    offlineCatalog: true,
+  },
+  timeouts: {
+    request: 15000,
+  },
+};
+
+/** Hands the config the server rendered with over to the browser. */
+export const APP_CONFIG_STATE_KEY = makeStateKey<AppConfig>('app-config');
+
+export class AppConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AppConfigError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isHttpUrl(value: unknown): value is string {
+  return typeof value === 'string' && /^https?:\/\/\S+$/.test(value);
+}
+
+/**
+ * Validates a raw `config.json` payload. Missing keys fall back to
+ * `defaults`; present keys with the wrong type are reported all at once.
+ */
+export function parseAppConfig(raw: unknown, defaults: AppConfig = DEFAULT_APP_CONFIG): AppConfig {
+  if (!isRecord(raw)) {
+    throw new AppConfigError('config.json must contain a JSON object');
+  }
+
+  const problems: string[] = [];
+  const {
+    apiUrl = defaults.apiUrl,
+    siteUrl = defaults.siteUrl,
+    features = {},
+    timeouts = {},
+  } = raw;
+
+  if (!isHttpUrl(apiUrl)) {
+    problems.push('apiUrl must be an http(s) URL');
+  }
+  if (siteUrl !== null && !isHttpUrl(siteUrl)) {
+    problems.push('siteUrl must be an http(s) URL or null');
+  }
+  if (!isRecord(features)) {
+    problems.push('features must be an object');
+  }
+  if (!isRecord(timeouts)) {
+    problems.push('timeouts must be an object');
+  }
+
+  const flags = { ...defaults.features };
+  for (const [name, value] of Object.entries(isRecord(features) ? features : {})) {
+    if (!(name in flags)) {
+      problems.push(`features.${name} is not a known feature`);
+    } else if (typeof value !== 'boolean') {
+      problems.push(`features.${name} must be true or false`);
+    } else {
+      flags[name as keyof typeof flags] = value;
+    }
+  }
+
+  const request = isRecord(timeouts)
+    ? (timeouts['request'] ?? defaults.timeouts.request)
+    : defaults.timeouts.request;
+  if (typeof request !== 'number' || !Number.isFinite(request) || request <= 0) {
+    problems.push('timeouts.request must be a positive number of milliseconds');
+  }
+
+  if (problems.length > 0) {
+    throw new AppConfigError(`Invalid config.json: ${problems.join('; ')}`);
+  }
+
+  return {
+    apiUrl: (apiUrl as string).replace(/\/+$/, ''),
+    siteUrl: siteUrl === null ? null : (siteUrl as string).replace(/\/+$/, ''),
+    features: flags,
+    timeouts: { request: request as number },
+  };
+}
+
+/**
+ * Holds the runtime configuration. `load` runs once before bootstrap (see
+ * `provideAppConfig`); until then, and in tests, the defaults apply.
+ * After server rendering the browser reuses the server's config instead
+ * of fetching it again.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class AppConfigService {
+  // HttpBackend skips the interceptors, which themselves depend on the config
+  private http = new HttpClient(inject(HttpBackend));
+  private transferState = inject(TransferState);
+  private document = inject(DOCUMENT);
+  private platformLocation = inject(PlatformLocation);
+  private isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+
+  private _config = signal(DEFAULT_APP_CONFIG);
+  config = this._config.asReadonly();
+
+  /**
+   * Fetches and validates the config. A missing file keeps the defaults
+   * (noted in development only); an invalid one fails the bootstrap rather
+   * than run against the wrong API.
+   */
+  load(url: string): Observable<AppConfig> {
+    const transferred = this.transferState.get(APP_CONFIG_STATE_KEY, null);
+    if (transferred) {
+      this._config.set(transferred);
+      return of(transferred);
+    }
+
+    // On the server, resolve against the app's base (not the page: on
+    // /product/1 that would request /product/config.json, rendered by the app itself)
+    const source = this.isBrowser ? url : this.absoluteUrl(url);
+
+    return this.http.get<unknown>(source).pipe(
+      map((raw) => parseAppConfig(raw)),
+      catchError((error) => {
+        if (error instanceof HttpErrorResponse && (error.status === 404 || error.status === 0)) {
+          if (isDevMode()) {
+            console.warn(`⚙️ ${url} not found, using the built-in configuration`);
+          }
+          return of(DEFAULT_APP_CONFIG);
+        }
+        return throwError(() => error);
+      }),
+      tap((config) => {
+        this._config.set(config);
+        if (!this.isBrowser) {
+          this.transferState.set(APP_CONFIG_STATE_KEY, config);
+        }
+      }),
+    );
+  }
+
+  private absoluteUrl(url: string): string {
+    const base = new URL(this.platformLocation.getBaseHrefFromDOM(), this.document.location.href);
+    return new URL(url, base).href;
+  }
+}
+
+/** Runtime configuration; read it with `inject(APP_CONFIG)`. */
+export const APP_CONFIG = new InjectionToken<AppConfig>('APP_CONFIG', {
+  providedIn: 'root',
+  factory: () => inject(AppConfigService).config(),
+});
+
+/**
+ * Loads `url` before the app starts so every `APP_CONFIG` consumer sees it.
+ */
+export function provideAppConfig(url = 'config.json'): EnvironmentProviders {
+  return provideAppInitializer(() => inject(AppConfigService).load(url));
+}
@@ -1,6 +1,9 @@
 import { HttpClient } from "@angular/common/http";
 import { Injectable, inject } from "@angular/core";
-import { environment } from "../../../environments/environment.development";
+import { map, OperatorFunction } from "rxjs";
+import { APP_CONFIG } from "./app-config.service";
+import { DECODE_REPORTER, decodePayload } from "./decoders";
+import { Decoder } from "../interfaces/decoder.interface";
 
 @Injectable({
         providedIn: 'root'
@@ -8,5 +11,16 @@ import { environment } from "../../../environments/environment.development";
     
 export class BaseHttpService {
     http = inject(HttpClient);
-    apiUrl = environment.API_URL;
+    protected config = inject(APP_CONFIG);
+    apiUrl = this.config.apiUrl;
+    private reportIssues = inject(DECODE_REPORTER);
+
+    /**
+     * Validates a response body before it reaches the app. Malformed list
+     * items are dropped and reported; an unusable body errors the stream
+     * with a `PayloadDecodeError`.
+     */
+    protected decode<T>(decoder: Decoder<T>, source: string): OperatorFunction<unknown, T> {
+        return map((body) => decodePayload(decoder, body, source, this.reportIssues));
+    }
 }
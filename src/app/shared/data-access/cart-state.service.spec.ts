@@ -0,0 +1,201 @@
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom } from 'rxjs';
+import { Product } from '../interfaces/product.interface';
+import { CART_HISTORY_LIMIT, CartStateService } from './cart-state.service';
+import { NotificationService } from './notification.service';
+import { MemoryStorageAdapter, provideCartStorage } from './storage-adapters';
+import { StorageService } from './storage.service';
+import { productFixture } from '../testing/product.fixture';
+
+describe('CartStateService', () => {
+  let service: CartStateService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideCartStorage(new MemoryStorageAdapter()),
+        { provide: CART_HISTORY_LIMIT, useValue: 2 },
+      ],
+    });
+    service = TestBed.inject(CartStateService);
+    TestBed.tick();
+  });
+
+  it('should add a new line with the chosen quantity', () => {
+    service.state.add({ product: productFixture(1), quantity: 3 });
+
+    expect(service.quantityOf(1)).toBe(3);
+  });
+
+  it('should add the chosen quantity to an existing line', () => {
+    service.state.add({ product: productFixture(1), quantity: 2 });
+    service.state.add({ product: productFixture(1), quantity: 3 });
+
+    expect(service.state.products().length).toBe(1);
+    expect(service.quantityOf(1)).toBe(5);
+    expect(service.count()).toBe(5);
+  });
+
+  it('should ignore quantities below one', () => {
+    service.state.add({ product: productFixture(1), quantity: 0 });
+    service.state.add({ product: productFixture(2), quantity: Number.NaN });
+
+    expect(service.state.products()).toEqual([]);
+    expect(service.quantityOf(1)).toBe(0);
+  });
+
+  it('should remove a line', () => {
+    service.state.add({ product: productFixture(1), quantity: 2 });
+    service.state.add({ product: productFixture(2), quantity: 1 });
+    service.state.remove(1);
+
+    expect(service.state.products().map(({ product }) => product.id)).toEqual([2]);
+  });
+
+  it('should increment and decrement a line by one unit', () => {
+    service.state.add({ product: productFixture(1), quantity: 2 });
+    service.state.increment(1);
+    expect(service.quantityOf(1)).toBe(3);
+
+    service.state.decrement(1);
+    expect(service.quantityOf(1)).toBe(2);
+  });
+
+  it('should remove the line when decrementing to zero', () => {
+    service.state.add({ product: productFixture(1), quantity: 1 });
+    service.state.decrement(1);
+
+    expect(service.state.products()).toEqual([]);
+  });
+
+  it('should set an exact quantity and remove the line below one', () => {
+    service.state.add({ product: productFixture(1), quantity: 1 });
+    service.state.setQuantity({ id: 1, quantity: 7 });
+    expect(service.quantityOf(1)).toBe(7);
+
+    service.state.setQuantity({ id: 1, quantity: 0 });
+    expect(service.state.products()).toEqual([]);
+  });
+
+  it('should leave the cart untouched for unknown ids', () => {
+    service.state.add({ product: productFixture(1), quantity: 1 });
+    service.state.increment(99);
+    service.state.setQuantity({ id: 99, quantity: 3 });
+
+    expect(service.state.products().length).toBe(1);
+  });
+
+  it('should clear every line', () => {
+    service.state.add({ product: productFixture(1), quantity: 1 });
+    service.state.add({ product: productFixture(2), quantity: 1 });
+    service.state.clear();
+
+    expect(service.state.products()).toEqual([]);
+    expect(service.count()).toBe(0);
+  });
+
+  it('should persist the result of every action', async () => {
+    service.state.add({ product: productFixture(1), quantity: 1 });
+    service.state.add({ product: productFixture(2), quantity: 1 });
+    service.state.increment(1);
+    service.state.decrement(2);
+    TestBed.tick();
+
+    const stored = await firstValueFrom(TestBed.inject(StorageService).loadCart());
+    expect(stored.products.map(({ product, quantity }) => [product.id, quantity])).toEqual([
+      [1, 2],
+    ]);
+  });
+
+  it('should confirm additions with a toast linking to the cart', () => {
+    service.state.add({ product: productFixture(1), quantity: 2 });
+
+    const [toast] = TestBed.inject(NotificationService).notifications();
+    expect(toast.variant).toBe('success');
+    expect(toast.message).toContain('2 × Product 1');
+    expect(toast.actions[0].link).toBe('/cart');
+  });
+
+  it('should undo and redo product changes', () => {
+    service.state.add({ product: productFixture(1), quantity: 1 });
+    service.state.increment(1);
+
+    service.state.undo();
+    expect(service.quantityOf(1)).toBe(1);
+    expect(service.canRedo()).toBeTrue();
+
+    service.state.redo();
+    expect(service.quantityOf(1)).toBe(2);
+    expect(service.canRedo()).toBeFalse();
+  });
+
+  it('should drop the redo stack on a new change and bound the undo stack', () => {
+    [1, 2, 3].forEach((id) => service.state.add({ product: productFixture(id), quantity: 1 }));
+    service.state.undo();
+    service.state.remove(1);
+
+    expect(service.canRedo()).toBeFalse();
+    expect(service.state.past().length).toBe(2);
+  });
+
+  it('should offer to undo a clear from the toast', () => {
+    service.state.add({ product: productFixture(1), quantity: 1 });
+    service.state.add({ product: productFixture(2), quantity: 1 });
+    service.state.clear();
+
+    const notifications = TestBed.inject(NotificationService);
+    const toast = notifications
+      .notifications()
+      .find(({ message }) => message === 'Se vació el carrito');
+    toast!.actions[0].run!();
+
+    expect(service.state.products().length).toBe(2);
+    expect(notifications.notifications().some(({ id }) => id === toast!.id)).toBeFalse();
+  });
+
+  it('should retire the undo toast once a later change is made', () => {
+    service.state.add({ product: productFixture(1), quantity: 1 });
+    service.state.remove(1);
+
+    const notifications = TestBed.inject(NotificationService);
+    const toast = notifications
+      .notifications()
+      .find(({ message }) => message === 'Product 1 se eliminó del carrito');
+    service.state.add({ product: productFixture(2), quantity: 1 });
+
+    expect(notifications.notifications().some(({ id }) => id === toast!.id)).toBeFalse();
+    expect(service.quantityOf(2)).toBe(1);
+  });
+
+  it('should bring the vouchers back when a clear is undone', () => {
+    service.state.add({ product: productFixture(1), quantity: 1 });
+    service.state.applyVoucher('ENVIOGRATIS');
+    service.state.clear();
+
+    expect(service.state.vouchers()).toEqual([]);
+
+    service.state.undo();
+
+    expect(service.state.products().length).toBe(1);
+    expect(service.state.vouchers()).toEqual(['ENVIOGRATIS']);
+  });
+
+  it('should not record removing a product that is not in the cart', () => {
+    service.state.add({ product: productFixture(1), quantity: 1 });
+    service.state.undo();
+
+    service.state.remove(2);
+    service.state.setQuantity({ id: 2, quantity: 0 });
+
+    expect(service.canRedo()).toBeTrue();
+    expect(service.state.past()).toEqual([]);
+  });
+
+  it('should forget the history on reset', () => {
+    service.state.add({ product: productFixture(1), quantity: 1 });
+    service.state.reset();
+
+    expect(service.state.products()).toEqual([]);
+    expect(service.canUndo()).toBeFalse();
+  });
+});
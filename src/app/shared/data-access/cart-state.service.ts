@@ -22,11 +22,17 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 // 📦 IMPORTS SECTION
 // ═══════════════════════════════════════════════════════════════════════════════
-import { computed, inject, Injectable, Signal } from "@angular/core";
+import { computed, inject, Injectable, InjectionToken, Signal } from "@angular/core";
 import { ProductItemCart } from "../interfaces/product.interface";
-import { signalSlice } from "ngxtension/signal-slice"; // Third-party library for advanced signal operations
-import { map, Observable } from "rxjs";
+import { createEntityAdapter, createEntityStore } from "./entity-store"; // signalSlice plus normalized entities
+import { filter, map, Observable, tap } from "rxjs";
 import { StorageService } from "./storage.service";
+import { VoucherService } from "./voucher.service";
+import { cartFingerprint, CartSyncService, mergeCarts } from "./cart-sync.service";
+import { NotificationService } from "./notification.service";
+import { VoucherError } from "../interfaces/voucher.interface";
+import { CartClock, CartSnapshot } from "../interfaces/storage.interface";
+import { EntityState } from "../interfaces/entity-store.interface";
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🏗️ STATE INTERFACE DEFINITION
@@ -34,14 +40,48 @@ import { StorageService } from "./storage.service";
 /**
  * 📋 Cart State Interface
  * Defines the shape of our cart state for type safety
+ * The lines themselves live in the entity store, keyed by product id
+ * (`ids` keeps their order) and `request` tracks loading them from storage
  * 
- * @interface State
- * @property {ProductItemCart[]} products - Array of products in the cart
- * @property {boolean} loaded - Flag to track if data has been loaded from storage
+ * @interface CartState
+ * @property {string[]} vouchers - Codes of the vouchers/gift cards applied to the cart
+ * @property {VoucherError | null} voucherError - Why the last redeemed code was rejected
+ * @property {CartClock} clock - When each line/the vouchers last changed, for cross-tab merging
+ * @property {CartHistoryEntry[]} past - Earlier cart snapshots, newest last (undo stack)
+ * @property {CartHistoryEntry[]} future - Snapshots undone and not yet redone, next first (redo stack)
  */
-interface State {
+interface CartState {
+    vouchers: string[];
+    voucherError: VoucherError | null;
+    clock: CartClock;
+    past: CartHistoryEntry[];
+    future: CartHistoryEntry[];
+}
+
+/**
+ * ↩️ What undo/redo bring back: the lines and the vouchers applied to them
+ */
+interface CartHistoryEntry {
     products: ProductItemCart[];
-    loaded: boolean;
+    vouchers: string[];
+}
+
+type State = EntityState<ProductItemCart, number> & CartState;
+
+/**
+ * ↩️ How many cart snapshots the undo history keeps
+ */
+export const CART_HISTORY_LIMIT = new InjectionToken<number>('CART_HISTORY_LIMIT', {
+    providedIn: 'root',
+    factory: () => 20,
+});
+
+/**
+ * 🔢 Payload for the setQuantity action
+ */
+export interface QuantityUpdate {
+    id: number;
+    quantity: number;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -70,18 +110,44 @@ export class CartStateService {
      * This is the new recommended approach in Angular 14+
      */
     private _storageService = inject(StorageService);
+    private _voucherService = inject(VoucherService);
+    private _cartSync = inject(CartSyncService);
+    private _notifications = inject(NotificationService);
+    private _historyLimit = inject(CART_HISTORY_LIMIT);
+
+    /**
+     * 🗂️ Reads and updates the lines, normalized by product id
+     */
+    private _lines = createEntityAdapter((item: ProductItemCart) => item.product.id);
+
+    /**
+     * 🔔 Toast offering to undo the last destructive change
+     * Dismissed once the change is undone some other way (e.g. Ctrl+Z)
+     * or a later change makes it the wrong one to undo
+     */
+    private _undoToastId: number | null = null;
+
+    /**
+     * 🔁 Fingerprint of the cart content last written or received from another tab
+     * The save effect skips identical content, which is what prevents two tabs
+     * from echoing the same change back and forth forever
+     */
+    private _lastSyncedFingerprint: string | null = null;
 
     // ───────────────────────────────────────────────────────────────────────────
     // 🏁 INITIAL STATE DEFINITION
     // ───────────────────────────────────────────────────────────────────────────
     /**
      * 📝 Initial state of the cart
-     * Always start with an empty cart and loaded = false
+     * Always start with an empty cart, its request "loading" until storage answers
      * This ensures predictable behavior on app startup
      */
-    private initialState: State = {
-        products: [],
-        loaded: false,
+    private initialState: CartState = {
+        vouchers: [],
+        voucherError: null,
+        clock: { lines: {}, vouchers: 0 },
+        past: [],
+        future: [],
     };
 
     // ───────────────────────────────────────────────────────────────────────────
@@ -89,71 +155,197 @@ export class CartStateService {
     // ───────────────────────────────────────────────────────────────────────────
     /**
      * 🎓 LEARNING: RxJS Observable Stream
-     * This observable loads products from localStorage and transforms the data
-     * The 'map' operator transforms the loaded products into our state shape
+     * This observable restores the cart (products and vouchers) from storage
+     * The 'map' operator transforms the snapshot into our state shape
+     * StorageService migrates old payloads and never throws, so a corrupt
+     * entry simply gives us an empty cart instead of breaking the stream
      */
     loadProducts$ = this._storageService
-        .loadProducts()
-        .pipe(map((products) => ({ products, loaded: true })));
+        .loadCart()
+        .pipe(
+            tap((cart) => (this._lastSyncedFingerprint = cartFingerprint(cart))),
+            map(({ products, vouchers, clock }) => ({
+                ...this._lines.setAll(products),
+                vouchers,
+                clock,
+                request: { status: 'success' as const },
+            }))
+        );
+
+    // ───────────────────────────────────────────────────────────────────────────
+    // 🔁 CROSS-TAB SYNC STREAM
+    // ───────────────────────────────────────────────────────────────────────────
+    /**
+     * 🎓 LEARNING: Sources that depend on the current state
+     * A source can be a function of the state signal. Changes made in other
+     * tabs are merged line by line (last write wins) into what we have locally
+     * The other tab already persisted them, so we remember their fingerprint
+     * and the save effect will not write or broadcast them again
+     */
+    syncProducts$ = (state: Signal<State>) => this._cartSync.changes$.pipe(
+        filter(() => state().request.status === 'success'),
+        map((remote) => {
+            this._lastSyncedFingerprint = cartFingerprint(remote);
+            const { products, vouchers, clock } = mergeCarts(this.snapshot(state()), remote);
+            return { ...this._lines.setAll(products), vouchers, clock };
+        })
+    );
 
     // ───────────────────────────────────────────────────────────────────────────
-    // 🔄 SIGNAL SLICE - ADVANCED STATE MANAGEMENT
+    // 🔄 ENTITY STORE - ADVANCED STATE MANAGEMENT
     // ───────────────────────────────────────────────────────────────────────────
     /**
-     * 🎓 LEARNING: signalSlice from ngxtension
+     * 🎓 LEARNING: createEntityStore (built on signalSlice from ngxtension)
      * 
      * This creates a reactive state slice with:
-     * - initialState: Starting point for our state
+     * - name: How the store shows up in the devtools (development builds)
+     * - adapter: How lines are identified (by product id)
+     * - initialState: Starting point for the rest of our state
      * - sources: Observable streams that update the state
      * - actionSources: User-triggered actions that modify state
+     * - selectors: Derived signals exposed next to the state ones
      * - effects: Side effects that run when state changes
      * 
-     * 🔍 Why use signalSlice?
+     * 🔍 Why an entity store?
      * - Combines the power of RxJS with Angular Signals
-     * - Provides a Redux-like pattern with less boilerplate
-     * - Automatic change detection and UI updates
+     * - Lines are looked up by id instead of searching an array
+     * - The same loading/error handling as the product stores
      */
-    state = signalSlice({
+    state = createEntityStore({
+        name: 'cart',
+        adapter: this._lines,
         initialState: this.initialState,
-        sources: [this.loadProducts$], // 📥 Auto-load products on service initialization
+        initialRequest: { status: 'loading' },
+        sources: [
+            this.loadProducts$, // 📥 Auto-load cart on service initialization
+            (state) => this.syncProducts$(state), // 🔁 Changes made in other tabs
+        ],
         
         // 🎬 ACTION SOURCES - User-triggered state changes
-        actionSources: {
+        actionSources: () => ({
             /**
              * 🛒 ADD TO CART ACTION
-             * Handles adding products to the cart with automatic persistence
-             * 
+             * Adds a new line or bumps the quantity of an existing one
+             * by the quantity carried in the payload, and confirms it with a toast
+             *
              * @param state - Current state signal
              * @param action$ - Observable stream of ProductItemCart to add
              * @returns Observable that emits the new state
              */
             add: (state, action$: Observable<ProductItemCart>) =>
                 action$.pipe(
-                    map((product) => {
-                        // 🔄 Create new state immutably
-                        const newState = this.add(state, product);
-                        
-                        // 💾 SIDE EFFECT: Save to localStorage immediately
-                        // This ensures data persistence without waiting for effects
-                        this._storageService.saveProducts(newState.products);
-                        console.log('🛒 Product added to cart and saved:', newState.products);
-                        
-                        return newState;
-                    })
-                )
-        },
-        
+                    map((item) => ({ item, changes: this.withHistory(state, this.add(state, item)) })),
+                    tap(({ item, changes }) => changes.entities && this.notifyAdded(item)),
+                    map(({ changes }) => changes),
+                ),
+
+            /**
+             * 🗑️ REMOVE ACTION
+             * Drops the whole line for the given product id
+             */
+            remove: (state, action$: Observable<number>) =>
+                action$.pipe(this.destructive(state, (id) => this.remove(state, id))),
+
+            /**
+             * ➕ INCREMENT ACTION
+             * Adds one unit to an existing line
+             */
+            increment: (state, action$: Observable<number>) =>
+                action$.pipe(map((id) => this.withHistory(state, this.changeQuantity(state, id, 1)))),
+
+            /**
+             * ➖ DECREMENT ACTION
+             * Removes one unit; the line disappears when it reaches zero
+             */
+            decrement: (state, action$: Observable<number>) =>
+                action$.pipe(this.destructive(state, (id) => this.changeQuantity(state, id, -1))),
+
+            /**
+             * 🔢 SET QUANTITY ACTION
+             * Sets an exact quantity (e.g. typed in the cart input)
+             * Anything below 1 removes the line
+             */
+            setQuantity: (state, action$: Observable<QuantityUpdate>) =>
+                action$.pipe(this.destructive(state, ({ id, quantity }) => this.setQuantity(state, id, quantity))),
+
+            /**
+             * 🧹 CLEAR ACTION
+             * Empties the cart, including the redeemed vouchers
+             * The products and vouchers can be brought back with undo
+             */
+            clear: (state, action$: Observable<void>) =>
+                action$.pipe(this.destructive(state, () => this.empty(state))),
+
+            /**
+             * 🧾 RESET ACTION
+             * Empties the cart and forgets its history, e.g. once the order is placed
+             */
+            reset: (state, action$: Observable<void>) =>
+                action$.pipe(
+                    map(() => ({ ...this.empty(state), past: [], future: [] })),
+                    tap(() => this.dismissUndoToast()),
+                ),
+
+            /**
+             * ↩️ UNDO ACTION
+             * Restores the products and vouchers as they were before the last change
+             */
+            undo: (state, action$: Observable<void>) =>
+                action$.pipe(
+                    map(() => this.undo(state)),
+                    tap(() => this.dismissUndoToast()),
+                ),
+
+            /**
+             * ↪️ REDO ACTION
+             * Applies again the last change that was undone
+             */
+            redo: (state, action$: Observable<void>) =>
+                action$.pipe(map(() => this.redo(state))),
+
+            /**
+             * 🎟️ APPLY VOUCHER ACTION
+             * Validates the code against the catalog and the current cart
+             * Invalid codes only set voucherError and leave the cart untouched
+             */
+            applyVoucher: (state, action$: Observable<string>) =>
+                action$.pipe(map((code) => this.withHistory(state, this.applyVoucher(state, code)))),
+
+            /**
+             * 🎟️ REMOVE VOUCHER ACTION
+             */
+            removeVoucher: (state, action$: Observable<string>) =>
+                action$.pipe(map((code) => this.withHistory(state, this.removeVoucher(state, code)))),
+        }),
+
+        // 🔎 SELECTORS - What consumers read besides the raw state
+        selectors: (state) => ({
+            /** 📦 The lines, in the order they were added */
+            products: () => this._lines.selectAll(state()),
+            /** 📥 Whether the cart was restored from storage yet */
+            loaded: () => state().request.status === 'success',
+        }),
+
         // ⚡ EFFECTS - Side effects that run based on state changes
         effects: (state) => ({
             /**
              * 💾 SAVE PRODUCTS EFFECT
-             * Automatically saves products to localStorage when state changes
-             * Only runs when data has been loaded to avoid saving empty state
+             * Automatically saves the cart and tells the other tabs about it
+             * Only runs when data has been loaded to avoid saving empty state,
+             * and skips content that is already stored (e.g. just synced)
              */
             saveProducts: () => {
                 if (state.loaded()) {
-                    this._storageService.saveProducts(state().products);
-                    console.log('💾 Products saved to localStorage:', state().products);
+                    const cart = this.snapshot(state());
+                    const fingerprint = cartFingerprint(cart);
+
+                    if (fingerprint === this._lastSyncedFingerprint) {
+                        return;
+                    }
+
+                    this._lastSyncedFingerprint = fingerprint;
+                    this._storageService.saveCart(cart);
+                    this._cartSync.publish(cart);
                 }
             }
         })
@@ -175,9 +367,23 @@ export class CartStateService {
      * - Integrates seamlessly with Angular's change detection
      */
     count = computed(() => 
-        this.state().products.reduce((total, item) => total + item.quantity, 0)
+        this.state.products().reduce((total, item) => total + item.quantity, 0)
     );
 
+    /**
+     * ↩️ Whether undo/redo have anything to apply (e.g. to disable buttons)
+     */
+    canUndo = computed(() => this.state.past().length > 0);
+    canRedo = computed(() => this.state.future().length > 0);
+
+    /**
+     * 🔎 Units of a product already in the cart (0 when it is not there)
+     * Reads the state signal, so templates and computeds stay reactive
+     */
+    quantityOf(id: number): number {
+        return this.state().entities[id]?.quantity ?? 0;
+    }
+
     // ───────────────────────────────────────────────────────────────────────────
     // 🔧 PRIVATE HELPER METHODS
     // ───────────────────────────────────────────────────────────────────────────
@@ -193,27 +399,280 @@ export class CartStateService {
      * @param product - Product to add to cart
      * @returns New state with the product added or quantity updated
      */
-    private add(state: Signal<State>, product: ProductItemCart): State {
-        // 🔍 Check if product already exists in cart
-        const isIncart = state().products.find(
-            (productInCart) => productInCart.product.id === product.product.id
-        );
+    private add(state: Signal<State>, product: ProductItemCart): Partial<State> {
+        // 🔢 Whole units only; nothing to add below one
+        const quantity = Math.floor(product.quantity);
+
+        if (!Number.isFinite(quantity) || quantity < 1) {
+            return {};
+        }
+
+        // 🔍 Check if product already exists in cart (a lookup by id)
+        const isIncart = product.product.id in state().entities;
 
-        // 📦 If product is new, add it to the cart
+        // 📦 If product is new, add it to the cart with the chosen quantity
         if (!isIncart) {
             return {
-                products: [...state().products, { ...product, quantity: 1 }], // 🔄 Immutable array update
-                loaded: state().loaded
+                ...this._lines.upsertMany(state(), [{ ...product, quantity }]), // 🔄 New ids/entities, appended
+
+                clock: this.touchLines(state().clock, [product.product.id]),
             };
         }
 
-        // ➕ If product exists, increment its quantity
-        isIncart.quantity += 1;
+        // ➕ If product exists, add the chosen units to a copy of the line
+        return this.changeQuantity(state, product.product.id, quantity);
+    }
+
+    // ───────────────────────────────────────────────────────────────────────────
+    // ↩️ UNDO / REDO HISTORY
+    // ───────────────────────────────────────────────────────────────────────────
+    /**
+     * 🎓 LEARNING: Undo with immutable snapshots
+     *
+     * Because every change produces new line objects and voucher arrays, the
+     * current ones are a complete snapshot we can keep as is — no deep copies needed.
+     * Any new change pushes the current snapshot onto `past` and drops `future`.
+     * It also retires the "Undo" toast: its button would now revert this change
+     * instead of the one it announced.
+     */
+    private withHistory(state: Signal<State>, changes: Partial<State>): Partial<State> {
+        const { entities, vouchers, past } = state();
+        const linesChanged = changes.entities !== undefined && changes.entities !== entities;
+        const vouchersChanged = changes.vouchers !== undefined && changes.vouchers !== vouchers;
+
+        if (!linesChanged && !vouchersChanged) {
+            return changes;
+        }
+
+        this.dismissUndoToast();
+
+        return {
+            ...changes,
+            past: [...past, this.historyEntry(state())].slice(-this._historyLimit),
+            future: [],
+        };
+    }
+
+    /**
+     * 🧨 Operator for changes that may drop lines: records the history and,
+     * when lines were removed, offers an "Undo" toast
+     * The tap runs before the state is updated, so state() is still the cart before the change
+     */
+    private destructive<T>(state: Signal<State>, change: (payload: T) => Partial<State>) {
+        return (action$: Observable<T>) => action$.pipe(
+            map((payload) => this.withHistory(state, change(payload))),
+            tap((changes) => changes.ids && this.notifyRemoved(state(), changes.ids)),
+        );
+    }
+
+    private undo(state: Signal<State>): Partial<State> {
+        const { past, future } = state();
+        const previous = past[past.length - 1];
+
+        if (!previous) {
+            return {};
+        }
+
+        return {
+            ...this.restore(state, previous),
+            past: past.slice(0, -1),
+            future: [this.historyEntry(state()), ...future],
+        };
+    }
+
+    private redo(state: Signal<State>): Partial<State> {
+        const { past, future } = state();
+        const [next, ...rest] = future;
+
+        if (!next) {
+            return {};
+        }
+
+        return {
+            ...this.restore(state, next),
+            past: [...past, this.historyEntry(state())].slice(-this._historyLimit),
+            future: rest,
+        };
+    }
+
+    /**
+     * 🕒 Swaps in a snapshot, stamping every line involved (and the vouchers,
+     * when they differ) so other tabs pick it up
+     */
+    private restore(state: Signal<State>, { products, vouchers }: CartHistoryEntry): Partial<State> {
+        const ids = [...state().ids, ...products.map((item) => item.product.id)];
+        const clock = this.touchLines(state().clock, ids);
+        const sameVouchers = vouchers.length === state().vouchers.length
+            && vouchers.every((code, index) => code === state().vouchers[index]);
+
+        return {
+            ...this._lines.setAll(products),
+            vouchers,
+            voucherError: null,
+            clock: sameVouchers ? clock : this.touchVouchers(clock),
+        };
+    }
+
+    private historyEntry(state: State): CartHistoryEntry {
+        return { products: this._lines.selectAll(state), vouchers: state.vouchers };
+    }
+
+    private empty(state: Signal<State>): Partial<State> {
+        return {
+            ...this._lines.setAll([]),
+            vouchers: [],
+            voucherError: null,
+            clock: this.touchVouchers(this.touchLines(state().clock, state().ids)),
+        };
+    }
+
+    /**
+     * 🔔 Offers to undo a change that took lines out of the cart
+     */
+    private notifyRemoved(before: State, after: number[]): void {
+        const removed = before.ids
+            .filter((id) => !after.includes(id))
+            .map((id) => before.entities[id]);
+
+        if (removed.length === 0) {
+            return;
+        }
+
+        const message = after.length === 0 && removed.length > 1
+            ? 'Se vació el carrito'
+            : removed.length === 1
+                ? `${removed[0].product.title} se eliminó del carrito`
+                : `Se eliminaron ${removed.length} productos del carrito`;
+
+        this.dismissUndoToast();
+        this._undoToastId = this._notifications.info(message, {
+            actions: [{ label: 'Deshacer', run: () => this.state.undo() }],
+        });
+    }
+
+    private dismissUndoToast(): void {
+        if (this._undoToastId !== null) {
+            this._notifications.dismiss(this._undoToastId);
+            this._undoToastId = null;
+        }
+    }
+
+    /**
+     * 🔔 Tells the user the product made it to the cart, with a shortcut to it
+     */
+    private notifyAdded({ product, quantity }: ProductItemCart): void {
+        const units = quantity > 1 ? `${Math.floor(quantity)} × ` : '';
+        this._notifications.success(`${units}${product.title} se añadió al carrito`, {
+            actions: [{ label: 'Ver carrito', link: '/cart' }],
+        });
+    }
+
+    /**
+     * 🎟️ Adds a voucher code when it passes validation
+     */
+    private applyVoucher(state: Signal<State>, code: string): Partial<State> {
+        const result = this._voucherService.validate(code, this._lines.selectAll(state()), state().vouchers);
+
+        if (!result.valid) {
+            return { voucherError: result.error };
+        }
+
         return {
-            products: [...state().products], // 🔄 Create new array reference
-            loaded: state().loaded
+            vouchers: [...state().vouchers, result.voucher.code],
+            voucherError: null,
+            clock: this.touchVouchers(state().clock),
         };
     }
+
+    /**
+     * 🎟️ Takes a voucher code off the cart; unknown codes only clear the error
+     */
+    private removeVoucher(state: Signal<State>, code: string): Partial<State> {
+        if (!state().vouchers.includes(code)) {
+            return { voucherError: null };
+        }
+
+        return {
+            vouchers: state().vouchers.filter((applied) => applied !== code),
+            voucherError: null,
+            clock: this.touchVouchers(state().clock),
+        };
+    }
+
+    /**
+     * 🗑️ Returns the cart without the line for the given product id
+     * Unknown ids leave the cart untouched (no history entry, no sync)
+     */
+    private remove(state: Signal<State>, id: number): Partial<State> {
+        if (!(id in state().entities)) {
+            return {};
+        }
+
+        return {
+            ...this._lines.removeMany(state(), [id]),
+            clock: this.touchLines(state().clock, [id]),
+        };
+    }
+
+    /**
+     * 🔢 Adds `delta` units to the line for the given product id
+     */
+    private changeQuantity(state: Signal<State>, id: number, delta: number): Partial<State> {
+        const item = state().entities[id];
+
+        if (!item) {
+            return {};
+        }
+
+        return this.setQuantity(state, id, item.quantity + delta);
+    }
+
+    /**
+     * 🔢 Replaces the quantity of a line with a new object
+     * Quantities below 1 remove the line; unknown ids leave the cart untouched
+     */
+    private setQuantity(state: Signal<State>, id: number, quantity: number): Partial<State> {
+        const nextQuantity = Math.floor(quantity);
+        const item = state().entities[id];
+
+        if (!Number.isFinite(nextQuantity) || nextQuantity < 1) {
+            return this.remove(state, id);
+        }
+
+        if (!item) {
+            return {};
+        }
+
+        return {
+            ...this._lines.upsertMany(state(), [{ ...item, quantity: nextQuantity }]), // Same id, same position
+            clock: this.touchLines(state().clock, [id]),
+        };
+    }
+
+    /**
+     * 🕒 Marks lines as modified now (removed lines become tombstones)
+     */
+    private touchLines(clock: CartClock, ids: number[]): CartClock {
+        const now = Date.now();
+        return {
+            ...clock,
+            lines: { ...clock.lines, ...Object.fromEntries(ids.map((id) => [id, now])) },
+        };
+    }
+
+    /**
+     * 🕒 Marks the voucher list as modified now
+     */
+    private touchVouchers(clock: CartClock): CartClock {
+        return { ...clock, vouchers: Date.now() };
+    }
+
+    /**
+     * 📸 The persisted part of the state
+     */
+    private snapshot(state: State): CartSnapshot {
+        return { products: this._lines.selectAll(state), vouchers: state.vouchers, clock: state.clock };
+    }
 }
 
 /*
@@ -228,6 +687,9 @@ export class CartStateService {
 ║   • Immutable state updates for predictable behavior                        ║
 ║   • Computed signals for derived data                                       ║
 ║   • Side effects management with automatic persistence                      ║
+║   • User feedback through a shared NotificationService                      ║
+║   • Undo/redo by keeping previous immutable snapshots                       ║
+║   • Normalized entities (ids + lookup by id) shared with the product stores ║
 ║                                                                              ║
 ║ 🔧 Advanced Patterns:                                                       ║
 ║   • signalSlice for complex state management                                ║
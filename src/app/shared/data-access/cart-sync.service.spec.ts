@@ -0,0 +1,71 @@
+import { CartSnapshot } from '../interfaces/storage.interface';
+import { cartFingerprint, mergeCarts } from './cart-sync.service';
+
+const line = (id: number, quantity: number) => ({
+  product: {
+    id,
+    title: `Product ${id}`,
+    price: 10,
+    description: '',
+    category: 'electronics',
+    image: '',
+    rating: { rate: 4, count: 1 },
+  },
+  quantity,
+});
+
+const cart = (
+  products: ReturnType<typeof line>[],
+  lines: Record<number, number>,
+  vouchers: string[] = [],
+  voucherTime = 0,
+): CartSnapshot => ({ products, vouchers, clock: { lines, vouchers: voucherTime } });
+
+describe('mergeCarts', () => {
+  it('should keep the most recently modified version of each line', () => {
+    const local = cart([line(1, 2), line(2, 1)], { 1: 100, 2: 300 });
+    const remote = cart([line(1, 5), line(2, 4)], { 1: 200, 2: 100 });
+
+    const merged = mergeCarts(local, remote);
+
+    expect(merged.products.map((item) => item.quantity)).toEqual([5, 1]);
+    expect(merged.clock.lines).toEqual({ 1: 200, 2: 300 });
+  });
+
+  it('should apply removals newer than the local line', () => {
+    const local = cart([line(1, 2)], { 1: 100 });
+    const remote = cart([], { 1: 200 });
+
+    expect(mergeCarts(local, remote).products).toEqual([]);
+  });
+
+  it('should append lines added in the other tab', () => {
+    const local = cart([line(1, 1)], { 1: 100 });
+    const remote = cart([line(1, 1), line(3, 2)], { 1: 100, 3: 150 });
+
+    expect(mergeCarts(local, remote).products.map((item) => item.product.id)).toEqual([1, 3]);
+  });
+
+  it('should take the most recent voucher list', () => {
+    const local = cart([], {}, ['AHORRA5'], 100);
+    const remote = cart([], {}, ['AHORRA5', 'TECH15'], 200);
+
+    expect(mergeCarts(local, remote).vouchers).toEqual(['AHORRA5', 'TECH15']);
+  });
+
+  it('should converge to the same cart on both sides', () => {
+    const a = cart([line(1, 2)], { 1: 100 }, ['GIFT25'], 50);
+    const b = cart([line(1, 3)], { 1: 100 }, ['TECH15'], 50);
+
+    expect(cartFingerprint(mergeCarts(a, b))).toBe(cartFingerprint(mergeCarts(b, a)));
+  });
+});
+
+describe('cartFingerprint', () => {
+  it('should ignore the order of the lines', () => {
+    const a = cart([line(1, 1), line(2, 2)], { 1: 1, 2: 2 });
+    const b = cart([line(2, 2), line(1, 1)], { 2: 2, 1: 1 });
+
+    expect(cartFingerprint(a)).toBe(cartFingerprint(b));
+  });
+});
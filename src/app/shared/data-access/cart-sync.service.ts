@@ -0,0 +1,135 @@
+import { isPlatformBrowser } from '@angular/common';
+import { DestroyRef, inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { EMPTY, filter, fromEvent, map, Observable, share } from 'rxjs';
+import { ProductItemCart } from '../interfaces/product.interface';
+import { CartSnapshot } from '../interfaces/storage.interface';
+import { CART_MIGRATIONS, CART_STORAGE_KEY, decodeCart } from './storage.service';
+
+export const CART_SYNC_CHANNEL = 'signal-store-cart';
+
+function byId(products: ProductItemCart[]): Map<number, ProductItemCart> {
+  return new Map(products.map((item) => [item.product.id, item]));
+}
+
+/**
+ * Merges two versions of the cart line by line: for every product the most
+ * recently modified side wins, including removals (tombstones in the clock).
+ * Ties are resolved the same way on both sides so every tab converges.
+ */
+export function mergeCarts(local: CartSnapshot, remote: CartSnapshot): CartSnapshot {
+  const localLines = byId(local.products);
+  const remoteLines = byId(remote.products);
+  const ids = new Set([
+    ...localLines.keys(),
+    ...remoteLines.keys(),
+    ...Object.keys(local.clock.lines).map(Number),
+    ...Object.keys(remote.clock.lines).map(Number),
+  ]);
+
+  const lines: Record<number, number> = {};
+  const winners = new Map<number, ProductItemCart | undefined>();
+
+  for (const id of ids) {
+    const localTime = local.clock.lines[id] ?? 0;
+    const remoteTime = remote.clock.lines[id] ?? 0;
+    const localLine = localLines.get(id);
+    const remoteLine = remoteLines.get(id);
+
+    let winner: ProductItemCart | undefined;
+    if (localTime !== remoteTime) {
+      winner = localTime > remoteTime ? localLine : remoteLine;
+    } else {
+      winner = (localLine?.quantity ?? 0) >= (remoteLine?.quantity ?? 0) ? localLine : remoteLine;
+    }
+
+    winners.set(id, winner);
+    lines[id] = Math.max(localTime, remoteTime);
+  }
+
+  // Keep the local order and append lines that only exist remotely
+  const order = [
+    ...localLines.keys(),
+    ...[...remoteLines.keys()].filter((id) => !localLines.has(id)),
+  ];
+  const products = order
+    .map((id) => winners.get(id))
+    .filter((item): item is ProductItemCart => !!item);
+
+  let vouchers = local.vouchers;
+  if (remote.clock.vouchers > local.clock.vouchers) {
+    vouchers = remote.vouchers;
+  } else if (remote.clock.vouchers === local.clock.vouchers) {
+    vouchers =
+      JSON.stringify(remote.vouchers) > JSON.stringify(local.vouchers)
+        ? remote.vouchers
+        : local.vouchers;
+  }
+
+  return {
+    products,
+    vouchers,
+    clock: { lines, vouchers: Math.max(local.clock.vouchers, remote.clock.vouchers) },
+  };
+}
+
+/**
+ * Order-independent identity of a cart's content, used to skip redundant
+ * writes so that two tabs never echo the same change back and forth.
+ */
+export function cartFingerprint(cart: CartSnapshot): string {
+  const products = [...cart.products]
+    .sort((a, b) => a.product.id - b.product.id)
+    .map((item) => [item.product.id, item.quantity]);
+  const lines = Object.entries(cart.clock.lines).sort(([a], [b]) => Number(a) - Number(b));
+
+  return JSON.stringify([products, cart.vouchers, lines, cart.clock.vouchers]);
+}
+
+/**
+ * Broadcasts cart changes to the other open tabs and exposes theirs.
+ * Uses BroadcastChannel when available and falls back to `storage` events,
+ * which the browser fires for localStorage writes made by other tabs.
+ * On the server there are no tabs: nothing is sent or received.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class CartSyncService {
+  private migrations = inject(CART_MIGRATIONS);
+  private isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+  private channel =
+    this.isBrowser && typeof BroadcastChannel !== 'undefined'
+      ? new BroadcastChannel(CART_SYNC_CHANNEL)
+      : null;
+
+  changes$: Observable<CartSnapshot> = (this.channel
+    ? fromEvent<MessageEvent<CartSnapshot>>(this.channel, 'message').pipe(map(({ data }) => data))
+    : this.storageEvents()
+  ).pipe(share());
+
+  constructor() {
+    inject(DestroyRef).onDestroy(() => this.channel?.close());
+  }
+
+  publish(cart: CartSnapshot): void {
+    this.channel?.postMessage(cart);
+  }
+
+  private storageEvents(): Observable<CartSnapshot> {
+    if (!this.isBrowser) {
+      return EMPTY;
+    }
+
+    return fromEvent<StorageEvent>(window, 'storage').pipe(
+      filter((event) => event.key === CART_STORAGE_KEY && event.newValue !== null),
+      map((event) => {
+        try {
+          return decodeCart(event.newValue!, this.migrations);
+        } catch {
+          return null;
+        }
+      }),
+      filter((cart): cart is CartSnapshot => cart !== null),
+    );
+  }
+}
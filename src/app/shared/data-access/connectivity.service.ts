@@ -0,0 +1,37 @@
+import { isPlatformBrowser } from '@angular/common';
+import { DestroyRef, inject, Injectable, PLATFORM_ID, signal } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { filter, map, Observable, pairwise } from 'rxjs';
+
+/**
+ * Tracks whether the browser believes it is online. The server always is.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ConnectivityService {
+  private isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+  private _online = signal(!this.isBrowser || navigator.onLine);
+  online = this._online.asReadonly();
+
+  /** Emits every time the connection comes back after being lost. */
+  reconnected$: Observable<void> = toObservable(this._online).pipe(
+    pairwise(),
+    filter(([before, now]) => !before && now),
+    map(() => undefined),
+  );
+
+  constructor() {
+    if (!this.isBrowser) {
+      return;
+    }
+
+    const update = () => this._online.set(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    inject(DestroyRef).onDestroy(() => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    });
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  decodePayload,
+  integer,
+  listOf,
+  number,
+  object,
+  PayloadDecodeError,
+  string,
+  withDefault,
+} from './decoders';
+
+const point = object<{ x: number; label: string }>({
+  x: integer(),
+  label: withDefault(string(), 'none'),
+});
+
+describe('decoders', () => {
+  it('should coerce numeric strings', () => {
+    expect(number()('12.5', '$')).toEqual({ ok: true, value: 12.5, issues: [] });
+    expect(number()('abc', '$').ok).toBeFalse();
+    expect(number()('', '$').ok).toBeFalse();
+  });
+
+  it('should fill defaults and report them', () => {
+    const result = point({ x: '3', label: null }, '$');
+
+    expect(result).toEqual({
+      ok: true,
+      value: { x: 3, label: 'none' },
+      issues: [{ path: '$.label', message: 'is missing, using the default', value: null }],
+    });
+  });
+
+  it('should fail an object when a required field is invalid', () => {
+    const result = point({ x: 1.5 }, '$');
+
+    expect(result.ok).toBeFalse();
+    expect(result.issues[0]).toEqual({ path: '$.x', message: 'is not an integer', value: 1.5 });
+  });
+
+  it('should drop invalid list items and keep the rest', () => {
+    const result = listOf(point)([{ x: 1 }, { x: 'no' }, { x: 2, label: 'b' }], '$');
+
+    expect(result.ok && result.value).toEqual([
+      { x: 1, label: 'none' },
+      { x: 2, label: 'b' },
+    ]);
+    expect(result.issues.map(({ path, message }) => `${path} ${message}`)).toContain(
+      '$[1] was dropped',
+    );
+  });
+
+  it('should report issues and throw on unusable payloads', () => {
+    const report = jasmine.createSpy('report');
+
+    expect(decodePayload(listOf(point), [{ x: 'no' }], 'GET /points', report)).toEqual([]);
+    expect(report).toHaveBeenCalledWith('GET /points', jasmine.any(Array));
+
+    expect(() => decodePayload(listOf(point), { items: [] }, 'GET /points', report)).toThrowError(
+      PayloadDecodeError,
+    );
+  });
+});
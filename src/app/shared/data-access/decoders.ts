@@ -0,0 +1,179 @@
+import { InjectionToken, isDevMode } from '@angular/core';
+import {
+  Decoder,
+  DecodeIssue,
+  DecodeReporter,
+  DecodeResult,
+} from '../interfaces/decoder.interface';
+
+export class PayloadDecodeError extends Error {
+  constructor(
+    readonly source: string,
+    readonly issues: DecodeIssue[],
+  ) {
+    super(
+      `Invalid payload from ${source}: ${issues.map(({ path, message }) => `${path} ${message}`).join('; ')}`,
+    );
+    this.name = 'PayloadDecodeError';
+  }
+}
+
+/**
+ * Where payload issues go. By default they are only logged in development;
+ * provide a reporter to send them somewhere in production (e.g. monitoring).
+ */
+export const DECODE_REPORTER = new InjectionToken<DecodeReporter>('DECODE_REPORTER', {
+  providedIn: 'root',
+  factory: () =>
+    isDevMode()
+      ? (source, issues) =>
+          console.warn(`🧪 ${issues.length} payload issue(s) in ${source}:`, issues)
+      : () => undefined,
+});
+
+const ok = <T>(value: T, issues: DecodeIssue[] = []): DecodeResult<T> => ({
+  ok: true,
+  value,
+  issues,
+});
+const fail = <T>(path: string, message: string, value: unknown): DecodeResult<T> => ({
+  ok: false,
+  issues: [{ path, message, value }],
+});
+
+export function string(): Decoder<string> {
+  return (input, path) => {
+    if (typeof input === 'string') {
+      return ok(input);
+    }
+    if (typeof input === 'number' && Number.isFinite(input)) {
+      return ok(String(input));
+    }
+    return fail(path, 'is not a string', input);
+  };
+}
+
+/** Accepts numbers and numeric strings (`"12.5"`). */
+export function number(): Decoder<number> {
+  return (input, path) => {
+    const value = typeof input === 'string' && input.trim() !== '' ? Number(input) : input;
+    return typeof value === 'number' && Number.isFinite(value)
+      ? ok(value)
+      : fail(path, 'is not a number', input);
+  };
+}
+
+export function integer(): Decoder<number> {
+  return refine(number(), Number.isInteger, 'is not an integer');
+}
+
+/** Adds a check on top of another decoder. */
+export function refine<T>(
+  decoder: Decoder<T>,
+  check: (value: T) => boolean,
+  message: string,
+): Decoder<T> {
+  return (input, path) => {
+    const result = decoder(input, path);
+    return result.ok && !check(result.value) ? fail(path, message, input) : result;
+  };
+}
+
+/**
+ * Uses `fallback` when the value is missing or invalid, reporting it
+ * instead of failing the enclosing object.
+ */
+export function withDefault<T>(decoder: Decoder<T>, fallback: T): Decoder<T> {
+  return (input, path) => {
+    if (input === undefined || input === null) {
+      return ok(fallback, [{ path, message: 'is missing, using the default', value: input }]);
+    }
+    const result = decoder(input, path);
+    return result.ok
+      ? result
+      : ok(
+          fallback,
+          result.issues.map((issue) => ({
+            ...issue,
+            message: `${issue.message}, using the default`,
+          })),
+        );
+  };
+}
+
+/** Decodes every key of `shape`; fails if any field fails. Unknown keys are dropped. */
+export function object<T extends object>(shape: { [K in keyof T]: Decoder<T[K]> }): Decoder<T> {
+  return (input, path) => {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      return fail(path, 'is not an object', input);
+    }
+
+    const value: Partial<T> = {};
+    const issues: DecodeIssue[] = [];
+    let valid = true;
+
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const result = shape[key]((input as Record<string, unknown>)[key], `${path}.${key}`);
+      issues.push(...result.issues);
+      if (result.ok) {
+        value[key] = result.value;
+      } else {
+        valid = false;
+      }
+    }
+
+    return valid ? ok(value as T, issues) : { ok: false, issues };
+  };
+}
+
+/**
+ * Decodes a list, dropping the items that fail (their issues are kept)
+ * so one bad entry does not take the whole response down.
+ */
+export function listOf<T>(item: Decoder<T>): Decoder<T[]> {
+  return (input, path) => {
+    if (!Array.isArray(input)) {
+      return fail(path, 'is not a list', input);
+    }
+
+    const value: T[] = [];
+    const issues: DecodeIssue[] = [];
+
+    input.forEach((entry, index) => {
+      const result = item(entry, `${path}[${index}]`);
+      if (result.ok) {
+        value.push(result.value);
+        issues.push(...result.issues);
+      } else {
+        issues.push(...result.issues, {
+          path: `${path}[${index}]`,
+          message: 'was dropped',
+          value: entry,
+        });
+      }
+    });
+
+    return ok(value, issues);
+  };
+}
+
+/**
+ * Runs `decoder` on a whole payload: issues go to `report`, and a payload
+ * that cannot be used at all throws a `PayloadDecodeError`.
+ */
+export function decodePayload<T>(
+  decoder: Decoder<T>,
+  input: unknown,
+  source: string,
+  report: DecodeReporter,
+): T {
+  const result = decoder(input, '$');
+
+  if (result.issues.length > 0) {
+    report(source, result.issues);
+  }
+  if (!result.ok) {
+    throw new PayloadDecodeError(source, result.issues);
+  }
+  return result.value;
+}
@@ -0,0 +1,128 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { TestBed } from '@angular/core/testing';
+import { mergeMap, Observable, of, Subject, switchMap, throwError } from 'rxjs';
+import { createEntityAdapter, createEntityStore } from './entity-store';
+
+interface Todo {
+  id: number;
+  title: string;
+}
+
+const adapter = createEntityAdapter((todo: Todo) => todo.id);
+const todo = (id: number, title = `Todo ${id}`): Todo => ({ id, title });
+
+describe('createEntityAdapter', () => {
+  it('should keep the order of the ids and replace existing entities in place', () => {
+    const state = adapter.upsertMany(adapter.setAll([todo(1), todo(2)]), [
+      todo(1, 'edited'),
+      todo(3),
+    ]);
+
+    expect(state.ids).toEqual([1, 2, 3]);
+    expect(adapter.selectAll(state).map(({ title }) => title)).toEqual([
+      'edited',
+      'Todo 2',
+      'Todo 3',
+    ]);
+  });
+
+  it('should remove entities by id', () => {
+    const state = adapter.removeMany(adapter.setAll([todo(1), todo(2), todo(3)]), [1, 3]);
+
+    expect(state).toEqual({ ids: [2], entities: { 2: todo(2) } });
+    expect(adapter.selectById(state, 1)).toBeUndefined();
+  });
+});
+
+describe('createEntityStore', () => {
+  const createStore = (
+    fetch: () => Observable<Todo[]>,
+    save = (_todo: Todo): Observable<unknown> => new Subject(),
+  ) =>
+    TestBed.runInInjectionContext(() =>
+      createEntityStore({
+        name: 'todos',
+        adapter,
+        initialState: { filter: '' },
+        actionSources: ({ request, optimistic }) => ({
+          load: (_state, $: Observable<void>) =>
+            $.pipe(switchMap(() => request(fetch(), (todos) => adapter.setAll(todos)))),
+          rename: (state, $: Observable<Todo>) =>
+            $.pipe(mergeMap((changed) => optimistic(state, [changed], save(changed)))),
+        }),
+        selectors: (state) => ({
+          titles: () => adapter.selectAll(state()).map(({ title }) => title),
+        }),
+      }),
+    );
+
+  it('should track a request from loading to success', () => {
+    const response$ = new Subject<Todo[]>();
+    const store = createStore(() => response$);
+
+    expect(store.status()).toBe('idle');
+    store.load();
+    expect(store.loading()).toBeTrue();
+
+    response$.next([todo(1), todo(2)]);
+    response$.complete();
+
+    expect(store.status()).toBe('success');
+    expect(store.titles()).toEqual(['Todo 1', 'Todo 2']);
+    expect(store.filter()).toBe('');
+  });
+
+  it('should expose failures as an error status', () => {
+    const store = createStore(() => throwError(() => new HttpErrorResponse({ status: 500 })));
+
+    store.load();
+
+    expect(store.status()).toBe('error');
+    expect(store.error()?.kind).toBe('server');
+  });
+
+  it('should stop the running request on cancel', () => {
+    const response$ = new Subject<Todo[]>();
+    const store = createStore(() => response$);
+
+    store.load();
+    store.cancel();
+    response$.next([todo(1)]);
+
+    expect(store.status()).toBe('idle');
+    expect(store.all()).toEqual([]);
+  });
+
+  it('should roll back an optimistic update that fails', () => {
+    const save$ = new Subject<void>();
+    const store = createStore(
+      () => of([todo(1)]),
+      () => save$,
+    );
+    store.load();
+
+    store.rename(todo(1, 'renamed'));
+    expect(store.titles()).toEqual(['renamed']);
+
+    save$.error(new HttpErrorResponse({ status: 0 }));
+
+    expect(store.titles()).toEqual(['Todo 1']);
+    expect(store.error()?.kind).toBe('network');
+  });
+
+  it('should only roll back the entities of the failed update', () => {
+    const failing$ = new Subject<void>();
+    const store = createStore(
+      () => of([todo(1), todo(2)]),
+      ({ id }) => (id === 2 ? of(undefined) : failing$),
+    );
+    store.load();
+
+    store.rename(todo(1, 'renamed'));
+    store.rename(todo(3, 'new'));
+    store.rename(todo(2, 'saved'));
+    failing$.error(new HttpErrorResponse({ status: 500 }));
+
+    expect(store.titles()).toEqual(['Todo 1', 'saved']);
+  });
+});
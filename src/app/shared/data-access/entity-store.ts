@@ -0,0 +1,279 @@
+import { Signal } from '@angular/core';
+import { PartialOrValue } from 'ngxtension/connect';
+import { SignalSlice } from 'ngxtension/signal-slice';
+import {
+  catchError,
+  concat,
+  endWith,
+  map,
+  Observable,
+  of,
+  startWith,
+  Subject,
+  takeUntil,
+  tap,
+} from 'rxjs';
+import { ApiError } from '../interfaces/api-error.interface';
+import {
+  EntityId,
+  EntityState,
+  RemoteData,
+  RemoteStatus,
+} from '../interfaces/entity-store.interface';
+import { toApiError } from './api-errors';
+import { trackedSlice } from './tracked-slice';
+
+type Entities<T, Id extends EntityId> = Pick<EntityState<T, Id>, 'ids' | 'entities'>;
+
+/**
+ * Pure helpers to read and update normalized entities. Updates return the
+ * changed `ids`/`entities` only, ready to be emitted by an action.
+ */
+export interface EntityAdapter<T, Id extends EntityId> {
+  selectId: (entity: T) => Id;
+  selectAll: (state: Entities<T, Id>) => T[];
+  selectById: (state: Entities<T, Id>, id: Id) => T | undefined;
+  setAll: (entities: T[]) => Entities<T, Id>;
+  upsertMany: (state: Entities<T, Id>, entities: T[]) => Entities<T, Id>;
+  removeMany: (state: Entities<T, Id>, ids: Id[]) => Entities<T, Id>;
+}
+
+export function createEntityAdapter<T, Id extends EntityId>(
+  selectId: (entity: T) => Id,
+): EntityAdapter<T, Id> {
+  const upsertMany = (state: Entities<T, Id>, entities: T[]): Entities<T, Id> => {
+    const ids = [...state.ids];
+    const next = { ...state.entities };
+    for (const entity of entities) {
+      const id = selectId(entity);
+      if (!(id in next)) {
+        ids.push(id);
+      }
+      next[id] = entity;
+    }
+    return { ids, entities: next };
+  };
+
+  return {
+    selectId,
+    selectAll: ({ ids, entities }) => ids.map((id) => entities[id]),
+    selectById: ({ entities }, id) => entities[id],
+    setAll: (entities) => upsertMany({ ids: [], entities: {} as Record<Id, T> }, entities),
+    upsertMany,
+    removeMany: (state, ids) => {
+      const removed = new Set<EntityId>(ids);
+      const entities = { ...state.entities };
+      ids.forEach((id) => delete entities[id]);
+      return { ids: state.ids.filter((id) => !removed.has(id)), entities };
+    },
+  };
+}
+
+function initialEntityState<T, Id extends EntityId>(
+  request: RemoteData = { status: 'idle' },
+): EntityState<T, Id> {
+  return { ids: [], entities: {} as Record<Id, T>, request };
+}
+
+/** Operators available to the actions of an entity store. */
+export interface EntityStoreTools<T, S> {
+  /**
+   * Runs `source$` as the store's request: emits `loading`, then
+   * `project(result)` for every result, then `success`. Errors become an
+   * `error` status instead of ending the action. The `cancel` action (and,
+   * inside `switchMap`, a newer request) stops it.
+   */
+  request: <R>(
+    source$: Observable<R>,
+    project: (result: R) => Partial<S>,
+  ) => Observable<Partial<S>>;
+  /**
+   * Upserts `entities` right away. If `commit$` fails, only those entities
+   * are put back as they were (or removed, if they are new), so changes
+   * made meanwhile survive, and the error is exposed in `request`.
+   * Meant for actions sent to the server; the products, product detail and
+   * cart stores have none (the API is read-only, the cart stays on the
+   * device), so no store uses it yet.
+   */
+  optimistic: (
+    state: Signal<S>,
+    entities: T[],
+    commit$: Observable<unknown>,
+  ) => Observable<Partial<S>>;
+}
+
+type StateSignals<S> = Signal<S> & { [K in keyof S]: Signal<S[K]> };
+type SelectorSignals<TSelectors extends Record<string, () => unknown>> = {
+  [K in keyof TSelectors]: Signal<ReturnType<TSelectors[K]>>;
+};
+type ActionSources<S, TActions> = {
+  [K in keyof TActions]: (
+    state: Signal<S>,
+    action$: Observable<TActions[K]>,
+  ) => Observable<PartialOrValue<S>>;
+};
+type Source<S> =
+  | Observable<PartialOrValue<S>>
+  | ((state: Signal<S>) => Observable<PartialOrValue<S>>);
+
+/** Selectors every entity store gets for free. */
+export type EntityStoreSelectors<T> = {
+  all: () => T[];
+  status: () => RemoteStatus;
+  error: () => ApiError | null;
+  loading: () => boolean;
+};
+
+/**
+ * Entities, their request and the store's own state. `signalSlice` wants a
+ * state without optional properties, which TypeScript only sees through
+ * `Required` while `TExtra` is generic; stores rule them out in `TExtra`.
+ */
+export type EntityStoreState<T, Id extends EntityId, TExtra> = Required<
+  EntityState<T, Id> & TExtra
+>;
+
+/**
+ * `TActions` maps every action name to its payload, so each action source
+ * gets its `state` typed without repeating it.
+ */
+export interface EntityStoreConfig<
+  T,
+  Id extends EntityId,
+  TExtra extends object & Required<TExtra>,
+  TActions extends Record<string, unknown>,
+  TSelectors extends Record<string, () => unknown>,
+  TEffects extends Record<string, () => void>,
+> {
+  /** Store name shown in the devtools. */
+  name: string;
+  adapter: EntityAdapter<T, Id>;
+  /** State kept next to the entities. */
+  initialState: TExtra;
+  /** Status before the first request, e.g. `loading` for stores that load on creation. */
+  initialRequest?: RemoteData;
+  sources?: Source<EntityStoreState<T, Id, TExtra>>[];
+  actionSources?: (
+    tools: EntityStoreTools<T, EntityStoreState<T, Id, TExtra>>,
+  ) => ActionSources<EntityStoreState<T, Id, TExtra>, TActions>;
+  selectors?: (state: StateSignals<EntityStoreState<T, Id, TExtra>>) => TSelectors;
+  effects?: (
+    state: StateSignals<EntityStoreState<T, Id, TExtra>> &
+      SelectorSignals<EntityStoreSelectors<T> & TSelectors>,
+  ) => TEffects;
+}
+
+/** The slice returned by `createEntityStore`. */
+export type EntityStore<
+  T,
+  S extends Required<S>,
+  TActions extends Record<string, unknown>,
+  TSelectors extends Record<string, () => unknown>,
+  TEffects extends Record<string, () => void>,
+> = SignalSlice<
+  S,
+  ActionSources<S, TActions & { cancel: void }>,
+  EntityStoreSelectors<T> & TSelectors,
+  TEffects
+>;
+
+/**
+ * 🗃️ ENTITY STORE
+ * A `signalSlice` holding entities normalized by id plus `initialState`,
+ * with what every remote-backed store needs built in:
+ * - `all`, `status`, `error` and `loading` selectors
+ * - a `cancel` action that stops the running request
+ * - `request` / `optimistic` tools for the store's own actions
+ */
+export function createEntityStore<
+  T,
+  Id extends EntityId,
+  TExtra extends object & Required<TExtra>,
+  TActions extends Record<string, unknown> = {},
+  TSelectors extends Record<string, () => unknown> = {},
+  TEffects extends Record<string, () => void> = {},
+>(
+  config: EntityStoreConfig<T, Id, TExtra, TActions, TSelectors, TEffects>,
+): EntityStore<T, EntityStoreState<T, Id, TExtra>, TActions, TSelectors, TEffects> {
+  type S = EntityStoreState<T, Id, TExtra>;
+
+  const cancel$ = new Subject<void>();
+  const { adapter } = config;
+
+  const tools: EntityStoreTools<T, S> = {
+    request: (source$, project) =>
+      source$.pipe(
+        map(project),
+        endWith({ request: { status: 'success' } } as Partial<S>),
+        startWith({ request: { status: 'loading' } } as Partial<S>),
+        catchError((error) =>
+          of({ request: { status: 'error', error: toApiError(error) } } as Partial<S>),
+        ),
+        takeUntil(cancel$),
+      ),
+    optimistic: (state, entities, commit$) => {
+      const ids = entities.map(adapter.selectId);
+      const before = ids.map((id) => adapter.selectById(state(), id));
+
+      const rollback = () => {
+        const added = ids.filter((_id, index) => before[index] === undefined);
+        const previous = before.filter((entity) => entity !== undefined);
+        return adapter.upsertMany(adapter.removeMany(state(), added), previous);
+      };
+
+      return concat(
+        of(adapter.upsertMany(state(), entities) as Partial<S>),
+        commit$.pipe(
+          map(() => ({ request: { status: 'success' } }) as Partial<S>),
+          catchError((error) =>
+            of({
+              ...rollback(),
+              request: { status: 'error', error: toApiError(error) },
+            } as Partial<S>),
+          ),
+        ),
+      );
+    },
+  };
+
+  const initialState = {
+    ...initialEntityState<T, Id>(config.initialRequest),
+    ...config.initialState,
+  } as S;
+
+  return trackedSlice(config.name)<
+    S,
+    ActionSources<S, TActions & { cancel: void }>,
+    EntityStoreSelectors<T> & TSelectors,
+    TEffects
+  >({
+    initialState,
+    sources: config.sources ?? [],
+    actionSources: Object.assign({}, config.actionSources?.(tools), {
+      cancel: (state: Signal<S>, action$: Observable<void>) =>
+        action$.pipe(
+          tap(() => cancel$.next()),
+          map(
+            () =>
+              (state().request.status === 'loading'
+                ? { request: { status: 'idle' } }
+                : {}) as Partial<S>,
+          ),
+        ),
+    }),
+    selectors: (state) =>
+      Object.assign(
+        {
+          all: () => adapter.selectAll(state()),
+          status: () => state().request.status,
+          error: () => {
+            const request = state().request;
+            return request.status === 'error' ? request.error : null;
+          },
+          loading: () => state().request.status === 'loading',
+        },
+        config.selectors?.(state),
+      ),
+    effects: config.effects,
+  });
+}
@@ -0,0 +1,114 @@
+import { HttpClient, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+import { httpCacheInterceptor } from './http-cache.interceptor';
+import { HTTP_CACHE_RULES, HttpCacheService } from './http-cache.service';
+
+const URL = 'https://api.test/products/1';
+
+describe('httpCacheInterceptor', () => {
+  let http: HttpClient;
+  let backend: HttpTestingController;
+  let cache: HttpCacheService;
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+    spyOn(Date, 'now').and.callFake(() => now);
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([httpCacheInterceptor])),
+        provideHttpClientTesting(),
+        {
+          provide: HTTP_CACHE_RULES,
+          useValue: [{ match: /\/products\/\d+$/, ttl: 1000, staleWhileRevalidate: 5000 }],
+        },
+      ],
+    });
+    http = TestBed.inject(HttpClient);
+    backend = TestBed.inject(HttpTestingController);
+    cache = TestBed.inject(HttpCacheService);
+  });
+
+  afterEach(() => backend.verify());
+
+  it('should answer fresh requests from the cache', () => {
+    http.get(URL).subscribe();
+    backend.expectOne(URL).flush({ id: 1 });
+
+    const bodies: unknown[] = [];
+    http.get(URL).subscribe((body) => bodies.push(body));
+
+    backend.expectNone(URL);
+    expect(bodies).toEqual([{ id: 1 }]);
+  });
+
+  it('should share one request between concurrent callers', () => {
+    const bodies: unknown[] = [];
+    http.get(URL).subscribe((body) => bodies.push(body));
+    http.get(URL).subscribe((body) => bodies.push(body));
+
+    backend.expectOne(URL).flush({ id: 1 });
+
+    expect(bodies).toEqual([{ id: 1 }, { id: 1 }]);
+  });
+
+  it('should serve stale data and then the revalidated response', () => {
+    http.get(URL).subscribe();
+    backend.expectOne(URL).flush({ id: 1, price: 10 });
+    now += 2000;
+
+    const bodies: unknown[] = [];
+    http.get(URL).subscribe((body) => bodies.push(body));
+    expect(bodies).toEqual([{ id: 1, price: 10 }]);
+
+    backend.expectOne(URL).flush({ id: 1, price: 12 });
+    expect(bodies).toEqual([
+      { id: 1, price: 10 },
+      { id: 1, price: 12 },
+    ]);
+  });
+
+  it('should go to the network once the stale window is over', () => {
+    http.get(URL).subscribe();
+    backend.expectOne(URL).flush({ id: 1 });
+    now += 7000;
+
+    const bodies: unknown[] = [];
+    http.get(URL).subscribe((body) => bodies.push(body));
+
+    expect(bodies).toEqual([]);
+    backend.expectOne(URL).flush({ id: 1 });
+  });
+
+  it('should refetch after manual invalidation', () => {
+    http.get(URL).subscribe();
+    backend.expectOne(URL).flush({ id: 1 });
+
+    cache.invalidate('/products/');
+    http.get(URL).subscribe();
+
+    backend.expectOne(URL).flush({ id: 1 });
+  });
+
+  it('should serve primed bodies without a request', () => {
+    cache.prime(URL, { id: 1 });
+
+    const bodies: unknown[] = [];
+    http.get(URL).subscribe((body) => bodies.push(body));
+
+    expect(bodies).toEqual([{ id: 1 }]);
+  });
+
+  it('should not cache other methods or unmatched URLs', () => {
+    http.post(URL, {}).subscribe();
+    http.post(URL, {}).subscribe();
+    expect(backend.match(URL).length).toBe(2);
+
+    http.get('https://api.test/carts').subscribe();
+    backend.expectOne('https://api.test/carts').flush([]);
+    http.get('https://api.test/carts').subscribe();
+    backend.expectOne('https://api.test/carts').flush([]);
+  });
+});
@@ -0,0 +1,51 @@
+import { HttpEvent, HttpInterceptorFn, HttpResponse } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { catchError, concat, EMPTY, filter, Observable, of } from 'rxjs';
+import { BYPASS_HTTP_CACHE, HttpCacheService } from './http-cache.service';
+
+function sameBody(a: HttpResponse<unknown>, b: HttpResponse<unknown>): boolean {
+  return JSON.stringify(a.body) === JSON.stringify(b.body);
+}
+
+/**
+ * Caches GET responses for the URLs covered by `HTTP_CACHE_RULES`:
+ * - fresh entries are answered from memory,
+ * - stale entries are answered from memory and refreshed in the background
+ *   (the new response is emitted too if it differs),
+ * - identical concurrent requests share one network call.
+ */
+export const httpCacheInterceptor: HttpInterceptorFn = (req, next) => {
+  const cache = inject(HttpCacheService);
+  const url = req.urlWithParams;
+  const rule = cache.ruleFor(url);
+
+  if (req.method !== 'GET' || req.context.get(BYPASS_HTTP_CACHE) || !rule) {
+    return next(req);
+  }
+
+  const entry = cache.get(url);
+  const age = entry ? Date.now() - entry.storedAt : Infinity;
+
+  if (entry && age <= rule.ttl) {
+    return of(entry.response.clone());
+  }
+
+  const network$: Observable<HttpEvent<unknown>> = cache.fetch(url, () =>
+    next(req).pipe(
+      filter((event): event is HttpResponse<unknown> => event instanceof HttpResponse),
+    ),
+  );
+
+  if (entry && age <= rule.ttl + rule.staleWhileRevalidate) {
+    return concat(
+      of(entry.response.clone()),
+      network$.pipe(
+        filter((response) => !sameBody(response as HttpResponse<unknown>, entry.response)),
+        // The stale copy was already delivered; a failed refresh is not an error
+        catchError(() => EMPTY),
+      ),
+    );
+  }
+
+  return network$;
+};
@@ -0,0 +1,103 @@
+import { HttpContextToken, HttpResponse } from '@angular/common/http';
+import { inject, Injectable, InjectionToken } from '@angular/core';
+import { finalize, Observable, shareReplay, tap } from 'rxjs';
+import { HttpCacheEntry, HttpCacheRule } from '../interfaces/http-cache.interface';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+/**
+ * Catalog endpoints and how long their responses stay fresh.
+ * The first matching rule wins; URLs matching no rule are never cached.
+ */
+export const DEFAULT_HTTP_CACHE_RULES: HttpCacheRule[] = [
+  { match: /\/products\/categories$/, ttl: 60 * MINUTE, staleWhileRevalidate: 24 * 60 * MINUTE },
+  { match: /\/products\/\d+$/, ttl: 5 * MINUTE, staleWhileRevalidate: 30 * MINUTE },
+  {
+    match: /\/products(\/category\/[^/?]+)?(\?.*)?$/,
+    ttl: 1 * MINUTE,
+    staleWhileRevalidate: 10 * MINUTE,
+  },
+];
+
+export const HTTP_CACHE_RULES = new InjectionToken<HttpCacheRule[]>('HTTP_CACHE_RULES', {
+  providedIn: 'root',
+  factory: () => DEFAULT_HTTP_CACHE_RULES,
+});
+
+/** Set to `true` on a request to skip the cache and always hit the network. */
+export const BYPASS_HTTP_CACHE = new HttpContextToken<boolean>(() => false);
+
+/**
+ * In-memory store behind `httpCacheInterceptor`, keyed by URL with params.
+ * Lives at the root so cached data outlives the component-scoped state services.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class HttpCacheService {
+  private rules = inject(HTTP_CACHE_RULES);
+  private entries = new Map<string, HttpCacheEntry>();
+  private inFlight = new Map<string, Observable<HttpResponse<unknown>>>();
+
+  ruleFor(url: string): HttpCacheRule | undefined {
+    return this.rules.find(({ match }) => match.test(url));
+  }
+
+  get(url: string): HttpCacheEntry | undefined {
+    return this.entries.get(url);
+  }
+
+  set(url: string, response: HttpResponse<unknown>): void {
+    this.entries.set(url, { response, storedAt: Date.now() });
+  }
+
+  /**
+   * Stores a body obtained some other way, e.g. a product taken from a list
+   * response, so that requesting it later is answered without a round trip.
+   * Never overwrites an entry that already exists.
+   */
+  prime(url: string, body: unknown): void {
+    if (!this.entries.has(url) && this.ruleFor(url)) {
+      this.set(url, new HttpResponse({ body, status: 200, statusText: 'OK', url }));
+    }
+  }
+
+  /**
+   * Runs `request` unless the same URL is already being fetched, in which
+   * case every caller shares that single request. Successful responses with
+   * a body are stored.
+   */
+  fetch(
+    url: string,
+    request: () => Observable<HttpResponse<unknown>>,
+  ): Observable<HttpResponse<unknown>> {
+    const pending = this.inFlight.get(url);
+    if (pending) {
+      return pending;
+    }
+
+    const shared = request().pipe(
+      tap((response) => response.body !== null && this.set(url, response)),
+      finalize(() => this.inFlight.delete(url)),
+      shareReplay({ bufferSize: 1, refCount: true }),
+    );
+    this.inFlight.set(url, shared);
+    return shared;
+  }
+
+  /**
+   * Drops cached responses. Without argument everything goes; otherwise only
+   * the URLs containing the string or matching the expression.
+   */
+  invalidate(match?: string | RegExp): void {
+    for (const url of [...this.entries.keys()]) {
+      if (
+        match === undefined ||
+        (typeof match === 'string' ? url.includes(match) : match.test(url))
+      ) {
+        this.entries.delete(url);
+      }
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { HttpClient, HttpContext, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { Subject } from 'rxjs';
+import { ConnectivityService } from './connectivity.service';
+import { httpErrorInterceptor, SILENT_HTTP_ERRORS } from './http-error.interceptor';
+import { NotificationService } from './notification.service';
+
+const URL = 'https://fakestoreapi.com/products';
+
+describe('httpErrorInterceptor', () => {
+  let http: HttpClient;
+  let backend: HttpTestingController;
+  let notifications: NotificationService;
+  let online: ReturnType<typeof signal<boolean>>;
+
+  beforeEach(() => {
+    online = signal(true);
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([httpErrorInterceptor])),
+        provideHttpClientTesting(),
+        { provide: ConnectivityService, useValue: { online, reconnected$: new Subject() } },
+      ],
+    });
+    http = TestBed.inject(HttpClient);
+    backend = TestBed.inject(HttpTestingController);
+    notifications = TestBed.inject(NotificationService);
+  });
+
+  afterEach(() => backend.verify());
+
+  const fail = (status: number, context?: HttpContext) => {
+    let failed = false;
+    http.get(URL, { context }).subscribe({ error: () => (failed = true) });
+    const request = backend.expectOne(URL);
+    if (status === 0) {
+      request.error(new ProgressEvent('error'));
+    } else {
+      request.flush(null, { status, statusText: 'Error' });
+    }
+    expect(failed).toBeTrue();
+  };
+
+  it('should toast server errors and still fail the request', () => {
+    fail(500);
+
+    expect(notifications.notifications().map(({ variant }) => variant)).toEqual(['error']);
+  });
+
+  it('should stay quiet for missing resources, offline failures and silenced requests', () => {
+    fail(404);
+    fail(500, new HttpContext().set(SILENT_HTTP_ERRORS, true));
+    online.set(false);
+    fail(0);
+
+    expect(notifications.notifications()).toEqual([]);
+  });
+});
@@ -0,0 +1,37 @@
+import { HttpContextToken, HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { catchError, throwError } from 'rxjs';
+import { toApiError } from './api-errors';
+import { ConnectivityService } from './connectivity.service';
+import { NotificationService } from './notification.service';
+
+/** Set to `true` on a request whose failures the caller reports itself. */
+export const SILENT_HTTP_ERRORS = new HttpContextToken<boolean>(() => false);
+
+/**
+ * Publishes an error toast for failed requests, then rethrows so callers
+ * still handle the failure. Missing resources get their own page and
+ * network failures while offline are covered by the offline banner, so
+ * neither is toasted.
+ */
+export const httpErrorInterceptor: HttpInterceptorFn = (req, next) => {
+  const notifications = inject(NotificationService);
+  const connectivity = inject(ConnectivityService);
+
+  if (req.context.get(SILENT_HTTP_ERRORS)) {
+    return next(req);
+  }
+
+  return next(req).pipe(
+    catchError((error) => {
+      const apiError = toApiError(error);
+      const expected =
+        apiError.kind === 'not-found' || (apiError.kind === 'network' && !connectivity.online());
+
+      if (!expected) {
+        notifications.error(apiError.message);
+      }
+      return throwError(() => error);
+    }),
+  );
+};
@@ -0,0 +1,57 @@
+import { TestBed } from '@angular/core/testing';
+import { NOTIFICATION_CONFIG, NotificationService } from './notification.service';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('NotificationService', () => {
+  let service: NotificationService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        {
+          provide: NOTIFICATION_CONFIG,
+          useValue: { duration: 10, errorDuration: 10, maxVisible: 2 },
+        },
+      ],
+    });
+    service = TestBed.inject(NotificationService);
+  });
+
+  it('should publish every variant', () => {
+    service.success('a');
+    service.error('b');
+
+    expect(service.notifications().map(({ variant, message }) => [variant, message])).toEqual([
+      ['success', 'a'],
+      ['error', 'b'],
+    ]);
+  });
+
+  it('should not stack a message that is already on screen', () => {
+    const first = service.error('Sin conexión');
+    const second = service.error('Sin conexión');
+
+    expect(second).toBe(first);
+    expect(service.notifications().length).toBe(1);
+  });
+
+  it('should drop the oldest toasts past the visible limit', () => {
+    ['a', 'b', 'c'].forEach((message) => service.info(message, { duration: null }));
+
+    expect(service.notifications().map(({ message }) => message)).toEqual(['b', 'c']);
+  });
+
+  it('should dismiss on its own unless paused', async () => {
+    const kept = service.info('kept');
+    service.info('gone');
+    service.pause(kept);
+
+    await wait(30);
+    expect(service.notifications().map(({ message }) => message)).toEqual(['kept']);
+
+    service.resume(kept);
+    await wait(30);
+    expect(service.notifications()).toEqual([]);
+  });
+});
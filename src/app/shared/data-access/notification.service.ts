@@ -0,0 +1,166 @@
+import { isPlatformBrowser } from '@angular/common';
+import { DestroyRef, inject, Injectable, InjectionToken, PLATFORM_ID, signal } from '@angular/core';
+import {
+  Notification,
+  NotificationConfig,
+  NotificationOptions,
+  NotificationVariant,
+} from '../interfaces/notification.interface';
+
+export const DEFAULT_NOTIFICATION_CONFIG: NotificationConfig = {
+  duration: 4000,
+  errorDuration: 8000,
+  maxVisible: 4,
+};
+
+export const NOTIFICATION_CONFIG = new InjectionToken<NotificationConfig>('NOTIFICATION_CONFIG', {
+  providedIn: 'root',
+  factory: () => DEFAULT_NOTIFICATION_CONFIG,
+});
+
+interface Timer {
+  handle: ReturnType<typeof setTimeout> | null;
+  remaining: number;
+  startedAt: number;
+}
+
+/**
+ * App-wide toasts. Anything can publish; the `ToastOutlet` in `App` renders them.
+ * A message identical to one already on screen restarts that toast instead
+ * of stacking a copy, so retried requests do not flood the screen.
+ * The server shows none: a toast's timer would hold the render back until
+ * it expired, and the page would hydrate with a message nobody triggered.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class NotificationService {
+  private config = inject(NOTIFICATION_CONFIG);
+  private isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+  private timers = new Map<number, Timer>();
+  private nextId = 1;
+
+  private _notifications = signal<Notification[]>([]);
+  notifications = this._notifications.asReadonly();
+
+  constructor() {
+    inject(DestroyRef).onDestroy(() =>
+      this.timers.forEach(({ handle }) => handle && clearTimeout(handle)),
+    );
+  }
+
+  success(message: string, options?: NotificationOptions): number {
+    return this.show('success', message, options);
+  }
+
+  info(message: string, options?: NotificationOptions): number {
+    return this.show('info', message, options);
+  }
+
+  warning(message: string, options?: NotificationOptions): number {
+    return this.show('warning', message, options);
+  }
+
+  error(message: string, options?: NotificationOptions): number {
+    return this.show('error', message, options);
+  }
+
+  show(variant: NotificationVariant, message: string, options: NotificationOptions = {}): number {
+    if (!this.isBrowser) {
+      return 0;
+    }
+
+    const duration =
+      options.duration !== undefined
+        ? options.duration
+        : variant === 'error'
+          ? this.config.errorDuration
+          : this.config.duration;
+
+    const duplicate = this._notifications().find(
+      (notification) => notification.variant === variant && notification.message === message,
+    );
+    if (duplicate) {
+      if (!duplicate.paused) {
+        this.startTimer(duplicate.id, duration);
+      }
+      return duplicate.id;
+    }
+
+    const notification: Notification = {
+      id: this.nextId++,
+      variant,
+      message,
+      title: options.title ?? null,
+      actions: options.actions ?? [],
+      duration,
+      paused: false,
+    };
+
+    const visible = [...this._notifications(), notification];
+    visible.slice(0, -this.config.maxVisible).forEach(({ id }) => this.dismiss(id));
+    this._notifications.update((notifications) => [...notifications, notification]);
+    this.startTimer(notification.id, duration);
+
+    return notification.id;
+  }
+
+  dismiss(id: number) {
+    const timer = this.timers.get(id);
+    if (timer?.handle) {
+      clearTimeout(timer.handle);
+    }
+    this.timers.delete(id);
+    this._notifications.update((notifications) =>
+      notifications.filter((notification) => notification.id !== id),
+    );
+  }
+
+  /** Freezes the countdown, e.g. while the pointer is over the toast. */
+  pause(id: number) {
+    const timer = this.timers.get(id);
+    if (!timer?.handle) {
+      return;
+    }
+    clearTimeout(timer.handle);
+    this.timers.set(id, {
+      handle: null,
+      remaining: timer.remaining - (Date.now() - timer.startedAt),
+      startedAt: 0,
+    });
+    this.setPaused(id, true);
+  }
+
+  resume(id: number) {
+    const timer = this.timers.get(id);
+    if (!timer || timer.handle) {
+      return;
+    }
+    this.startTimer(id, Math.max(timer.remaining, 0));
+    this.setPaused(id, false);
+  }
+
+  private startTimer(id: number, duration: number | null) {
+    const previous = this.timers.get(id);
+    if (previous?.handle) {
+      clearTimeout(previous.handle);
+    }
+    if (duration === null) {
+      this.timers.delete(id);
+      return;
+    }
+    this.timers.set(id, {
+      handle: setTimeout(() => this.dismiss(id), duration),
+      remaining: duration,
+      startedAt: Date.now(),
+    });
+  }
+
+  private setPaused(id: number, paused: boolean) {
+    this._notifications.update((notifications) =>
+      notifications.map((notification) =>
+        notification.id === id ? { ...notification, paused } : notification,
+      ),
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { inject, Injectable, InjectionToken } from '@angular/core';
+import {
+  catchError,
+  concat,
+  concatMap,
+  map,
+  Observable,
+  of,
+  shareReplay,
+  Subject,
+  switchMap,
+} from 'rxjs';
+import { PersistedResponse } from '../interfaces/offline.interface';
+import { StorageAdapter } from '../interfaces/storage.interface';
+import { injectStorageAdapter } from './storage-adapters';
+
+export const OFFLINE_INDEX_KEY = 'offline-catalog';
+export const MAX_OFFLINE_RESPONSES = 100;
+
+/**
+ * Where offline data (catalog responses and queued operations) is kept.
+ * IndexedDB by default, as catalog pages quickly outgrow Web Storage.
+ */
+export const OFFLINE_STORAGE_ADAPTER = new InjectionToken<StorageAdapter>(
+  'OFFLINE_STORAGE_ADAPTER',
+  {
+    providedIn: 'root',
+    factory: () => injectStorageAdapter('indexeddb'),
+  },
+);
+
+const entryKey = (url: string) => `${OFFLINE_INDEX_KEY}:${url}`;
+
+/**
+ * Keeps the most recently fetched catalog responses on the device.
+ * Only the newest `MAX_OFFLINE_RESPONSES` URLs are kept.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class OfflineCatalogService {
+  private adapter = inject(OFFLINE_STORAGE_ADAPTER);
+  private writes = new Subject<PersistedResponse>();
+
+  /** URLs stored, most recent first, loaded once and then kept in memory. */
+  private index$ = this.adapter.getItem(OFFLINE_INDEX_KEY).pipe(
+    map((raw) => {
+      const urls: unknown = raw ? JSON.parse(raw) : [];
+      return Array.isArray(urls) ? urls.filter((url) => typeof url === 'string') : [];
+    }),
+    catchError(() => of([] as string[])),
+    shareReplay(1),
+  );
+  private index: string[] | null = null;
+
+  constructor() {
+    // Writes run one after another so the index is never updated concurrently
+    this.writes
+      .pipe(concatMap((entry) => this.write(entry).pipe(catchError(() => of(undefined)))))
+      .subscribe();
+  }
+
+  save(url: string, body: unknown): void {
+    this.writes.next({ url, body, savedAt: new Date().toISOString() });
+  }
+
+  read(url: string): Observable<PersistedResponse | null> {
+    return this.adapter.getItem(entryKey(url)).pipe(
+      map((raw) => (raw ? (JSON.parse(raw) as PersistedResponse) : null)),
+      catchError(() => of(null)),
+    );
+  }
+
+  private write(entry: PersistedResponse): Observable<void> {
+    return this.index$.pipe(
+      switchMap((stored) => {
+        const urls = [entry.url, ...(this.index ?? stored).filter((url) => url !== entry.url)];
+        const evicted = urls.slice(MAX_OFFLINE_RESPONSES);
+        this.index = urls.slice(0, MAX_OFFLINE_RESPONSES);
+
+        return concat(
+          this.adapter.setItem(entryKey(entry.url), JSON.stringify(entry)),
+          this.adapter.setItem(OFFLINE_INDEX_KEY, JSON.stringify(this.index)),
+          ...evicted.map((url) => this.adapter.removeItem(entryKey(url))),
+        );
+      }),
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom, of, Subject, throwError } from 'rxjs';
+import { ReplayedOperation } from '../interfaces/offline.interface';
+import { ConnectivityService } from './connectivity.service';
+import { OFFLINE_STORAGE_ADAPTER } from './offline-catalog.service';
+import { NotificationService } from './notification.service';
+import {
+  OFFLINE_QUEUE_HANDLERS,
+  OFFLINE_QUEUE_KEY,
+  OfflineQueueService,
+  queueHandler,
+} from './offline-queue.service';
+import { MemoryStorageAdapter } from './storage-adapters';
+
+describe('OfflineQueueService', () => {
+  let queue: OfflineQueueService;
+  let adapter: MemoryStorageAdapter;
+  let online: ReturnType<typeof signal<boolean>>;
+  let reconnected$: Subject<void>;
+  let send: jasmine.Spy;
+
+  beforeEach(() => {
+    adapter = new MemoryStorageAdapter();
+    online = signal(false);
+    reconnected$ = new Subject<void>();
+    send = jasmine.createSpy('send').and.callFake((payload: number) => of(payload * 10));
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: OFFLINE_STORAGE_ADAPTER, useValue: adapter },
+        {
+          provide: OFFLINE_QUEUE_HANDLERS,
+          useValue: {
+            double: queueHandler(
+              'double',
+              (payload): payload is number => typeof payload === 'number',
+              send,
+            ),
+          },
+        },
+        { provide: ConnectivityService, useValue: { online, reconnected$ } },
+      ],
+    });
+    queue = TestBed.inject(OfflineQueueService);
+  });
+
+  it('should persist operations made while offline', async () => {
+    queue.enqueue('double', 1);
+
+    const stored = JSON.parse((await firstValueFrom(adapter.getItem(OFFLINE_QUEUE_KEY)))!);
+    expect(stored.length).toBe(1);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should replay operations in order when the connection returns', () => {
+    const replayed: ReplayedOperation[] = [];
+    queue.replayed$.subscribe((event) => replayed.push(event));
+    queue.enqueue('double', 1);
+    queue.enqueue('double', 2);
+
+    online.set(true);
+    reconnected$.next();
+
+    expect(replayed.map(({ result }) => result)).toEqual([10, 20]);
+    expect(queue.pending()).toEqual([]);
+  });
+
+  it('should keep failed operations for the next attempt', () => {
+    send.and.returnValue(throwError(() => new Error('offline')));
+    queue.enqueue('double', 1);
+
+    online.set(true);
+    reconnected$.next();
+
+    expect(queue.pending().length).toBe(1);
+  });
+
+  it('should still replay after restoring a queue that is not a list', async () => {
+    await firstValueFrom(adapter.setItem(OFFLINE_QUEUE_KEY, '{}'));
+    const restored = TestBed.runInInjectionContext(() => new OfflineQueueService());
+    restored.enqueue('double', 3);
+
+    online.set(true);
+    reconnected$.next();
+
+    expect(send).toHaveBeenCalledWith(3);
+    expect(restored.pending()).toEqual([]);
+  });
+
+  it('should discard payloads its handler does not recognise and go on', () => {
+    queue.enqueue('double', 'not a number');
+    queue.enqueue('double', 2);
+
+    online.set(true);
+    reconnected$.next();
+
+    expect(send).toHaveBeenCalledOnceWith(2);
+    expect(queue.pending()).toEqual([]);
+    const [toast] = TestBed.inject(NotificationService).notifications();
+    expect(toast.variant).toBe('error');
+  });
+
+  it('should tell the user when the queue cannot be saved', () => {
+    spyOn(adapter, 'setItem').and.returnValue(throwError(() => new Error('quota')));
+
+    queue.enqueue('double', 1);
+
+    expect(TestBed.inject(NotificationService).notifications().length).toBe(1);
+  });
+});
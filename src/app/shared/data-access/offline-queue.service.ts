@@ -0,0 +1,172 @@
+import { inject, Injectable, InjectionToken, signal } from '@angular/core';
+import {
+  catchError,
+  concatMap,
+  EMPTY,
+  exhaustMap,
+  from,
+  map,
+  merge,
+  Observable,
+  of,
+  Subject,
+  tap,
+  defer,
+  throwError,
+} from 'rxjs';
+import { isOrderRequest, OrdersService } from '../../data-access/orders.service';
+import { QueuedOperation, QueueHandler, ReplayedOperation } from '../interfaces/offline.interface';
+import { ConnectivityService } from './connectivity.service';
+import { NotificationService } from './notification.service';
+import { OFFLINE_STORAGE_ADAPTER } from './offline-catalog.service';
+
+export const OFFLINE_QUEUE_KEY = 'offline-queue';
+
+/** Thrown for a stored payload its handler does not recognise. */
+export class InvalidQueuedPayloadError extends Error {
+  constructor(readonly type: string) {
+    super(`Queued "${type}" operation has an invalid payload`);
+    this.name = 'InvalidQueuedPayloadError';
+  }
+}
+
+/** Enough of a stored operation to route it; its handler checks the payload. */
+function isQueuedOperation(value: unknown): value is QueuedOperation {
+  const operation = value as QueuedOperation;
+  return (
+    typeof operation === 'object' &&
+    operation !== null &&
+    typeof operation.id === 'string' &&
+    typeof operation.type === 'string' &&
+    typeof operation.queuedAt === 'string' &&
+    'payload' in operation
+  );
+}
+
+/**
+ * A typed handler for one operation type: payloads failing `isPayload`
+ * are never sent, and the queue discards them.
+ */
+export function queueHandler<T>(
+  type: string,
+  isPayload: (payload: unknown) => payload is T,
+  send: (payload: T) => Observable<unknown>,
+): QueueHandler {
+  return (payload) =>
+    isPayload(payload) ? send(payload) : throwError(() => new InvalidQueuedPayloadError(type));
+}
+
+/**
+ * How each type of queued operation is sent once the connection is back.
+ */
+export const OFFLINE_QUEUE_HANDLERS = new InjectionToken<Record<string, QueueHandler>>(
+  'OFFLINE_QUEUE_HANDLERS',
+  {
+    providedIn: 'root',
+    factory: () => {
+      const orders = inject(OrdersService);
+      return {
+        order: queueHandler('order', isOrderRequest, (order) => orders.createOrder(order)),
+      };
+    },
+  },
+);
+
+/**
+ * Persists server-bound operations made while offline and replays them,
+ * oldest first, when connectivity returns. An operation that fails again
+ * stays at the head of the queue for the next attempt.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class OfflineQueueService {
+  private adapter = inject(OFFLINE_STORAGE_ADAPTER);
+  private handlers = inject(OFFLINE_QUEUE_HANDLERS);
+  private connectivity = inject(ConnectivityService);
+  private notifications = inject(NotificationService);
+
+  private _pending = signal<QueuedOperation[]>([]);
+  pending = this._pending.asReadonly();
+
+  private _replayed = new Subject<ReplayedOperation>();
+  /** Operations that reached the server, with the server's answer. */
+  replayed$ = this._replayed.asObservable();
+
+  private flush$ = new Subject<void>();
+
+  constructor() {
+    const restored$ = this.adapter.getItem(OFFLINE_QUEUE_KEY).pipe(
+      map((raw): unknown => (raw ? JSON.parse(raw) : [])),
+      // Anything but a list of operations is dropped, so it cannot stop the replays
+      map((stored) => (Array.isArray(stored) ? stored.filter(isQueuedOperation) : [])),
+      catchError(() => of([])),
+      tap((operations) => this._pending.update((pending) => [...operations, ...pending])),
+      map(() => undefined),
+    );
+
+    merge(restored$, this.connectivity.reconnected$, this.flush$)
+      .pipe(exhaustMap(() => (this.connectivity.online() ? this.replay() : EMPTY)))
+      .subscribe();
+  }
+
+  enqueue<T>(type: string, payload: T): QueuedOperation<T> {
+    const operation: QueuedOperation<T> = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      type,
+      payload,
+      queuedAt: new Date().toISOString(),
+    };
+    this._pending.update((pending) => [...pending, operation]);
+    this.persist();
+    return operation;
+  }
+
+  /** Tries to send everything now (no-op while offline). */
+  flush(): void {
+    this.flush$.next();
+  }
+
+  private replay(): Observable<unknown> {
+    return defer(() => from(this._pending())).pipe(
+      concatMap((operation) => {
+        const handler = this.handlers[operation.type];
+        if (!handler) {
+          return EMPTY;
+        }
+
+        return handler(operation.payload).pipe(
+          tap((result) => {
+            this.remove(operation);
+            this._replayed.next({ operation, result });
+          }),
+          // Retrying cannot fix an unreadable payload, so it must not hold the queue back
+          catchError((error) => {
+            if (!(error instanceof InvalidQueuedPayloadError)) {
+              return throwError(() => error);
+            }
+            this.remove(operation);
+            this.notifications.error('Se descartó una operación pendiente que no se pudo leer.');
+            return EMPTY;
+          }),
+        );
+      }),
+      // Stop at the first failure and keep the order of the remaining operations
+      catchError(() => EMPTY),
+    );
+  }
+
+  private remove(operation: QueuedOperation): void {
+    this._pending.update((pending) => pending.filter(({ id }) => id !== operation.id));
+    this.persist();
+  }
+
+  private persist(): void {
+    this.adapter.setItem(OFFLINE_QUEUE_KEY, JSON.stringify(this._pending())).subscribe({
+      error: () =>
+        this.notifications.error(
+          'No pudimos guardar las operaciones pendientes en este dispositivo.',
+        ),
+    });
+  }
+}
@@ -0,0 +1,62 @@
+import { HttpClient, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom, Subject } from 'rxjs';
+import { ConnectivityService } from './connectivity.service';
+import { OFFLINE_STORAGE_ADAPTER, OfflineCatalogService } from './offline-catalog.service';
+import { offlineCatalogInterceptor } from './offline.interceptor';
+import { MemoryStorageAdapter } from './storage-adapters';
+
+const URL = 'https://fakestoreapi.com/products/1';
+
+describe('offlineCatalogInterceptor', () => {
+  let http: HttpClient;
+  let backend: HttpTestingController;
+  let online: ReturnType<typeof signal<boolean>>;
+
+  beforeEach(() => {
+    online = signal(true);
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([offlineCatalogInterceptor])),
+        provideHttpClientTesting(),
+        { provide: OFFLINE_STORAGE_ADAPTER, useValue: new MemoryStorageAdapter() },
+        { provide: ConnectivityService, useValue: { online, reconnected$: new Subject() } },
+      ],
+    });
+    http = TestBed.inject(HttpClient);
+    backend = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => backend.verify());
+
+  it('should persist catalog responses', async () => {
+    http.get(URL).subscribe();
+    backend.expectOne(URL).flush({ id: 1 });
+
+    const saved = await firstValueFrom(TestBed.inject(OfflineCatalogService).read(URL));
+    expect(saved?.body).toEqual({ id: 1 });
+  });
+
+  it('should serve the saved copy while offline', async () => {
+    http.get(URL).subscribe();
+    backend.expectOne(URL).flush({ id: 1 });
+
+    online.set(false);
+    const body = await firstValueFrom(http.get(URL));
+
+    expect(body).toEqual({ id: 1 });
+    backend.expectNone(URL);
+  });
+
+  it('should fall back to the saved copy when the request cannot reach the server', async () => {
+    http.get(URL).subscribe();
+    backend.expectOne(URL).flush({ id: 1 });
+
+    const body = firstValueFrom(http.get(URL));
+    backend.expectOne(URL).error(new ProgressEvent('error'), { status: 0 });
+
+    expect(await body).toEqual({ id: 1 });
+  });
+});
@@ -0,0 +1,65 @@
+import {
+  HttpErrorResponse,
+  HttpEvent,
+  HttpInterceptorFn,
+  HttpResponse,
+} from '@angular/common/http';
+import { inject } from '@angular/core';
+import { catchError, Observable, of, switchMap, tap, throwError } from 'rxjs';
+import { APP_CONFIG } from './app-config.service';
+import { ConnectivityService } from './connectivity.service';
+import { HttpCacheService } from './http-cache.service';
+import { OfflineCatalogService } from './offline-catalog.service';
+
+function fromPersisted(
+  offline: OfflineCatalogService,
+  url: string,
+  otherwise: () => Observable<HttpEvent<unknown>>,
+): Observable<HttpEvent<unknown>> {
+  return offline
+    .read(url)
+    .pipe(
+      switchMap((hit) =>
+        hit
+          ? of(new HttpResponse({ body: hit.body, status: 200, statusText: 'OK', url }))
+          : otherwise(),
+      ),
+    );
+}
+
+/**
+ * Saves catalog responses (the URLs covered by `HTTP_CACHE_RULES`) on the
+ * device and answers with them when the network is unavailable: right away
+ * while the browser reports being offline, or after a request fails without
+ * reaching the server. Off when the `offlineCatalog` feature is disabled.
+ */
+export const offlineCatalogInterceptor: HttpInterceptorFn = (req, next) => {
+  const offline = inject(OfflineCatalogService);
+  const connectivity = inject(ConnectivityService);
+  const url = req.urlWithParams;
+
+  if (
+    !inject(APP_CONFIG).features.offlineCatalog ||
+    req.method !== 'GET' ||
+    !inject(HttpCacheService).ruleFor(url)
+  ) {
+    return next(req);
+  }
+
+  if (!connectivity.online()) {
+    return fromPersisted(offline, url, () => next(req));
+  }
+
+  return next(req).pipe(
+    tap((event) => {
+      if (event instanceof HttpResponse && event.body !== null) {
+        offline.save(url, event.body);
+      }
+    }),
+    catchError((error) =>
+      error instanceof HttpErrorResponse && error.status === 0
+        ? fromPersisted(offline, url, () => throwError(() => error))
+        : throwError(() => error),
+    ),
+  );
+};
@@ -0,0 +1,81 @@
+import { ProductItemCart } from '../interfaces/product.interface';
+import { PricingRules } from '../interfaces/pricing.interface';
+import { applyShippingMethod, calculateTotals, toCents } from './pricing.service';
+import { productFixture } from '../testing/product.fixture';
+
+const rules: PricingRules = {
+  taxRate: 0.1,
+  shippingFlatRate: 5,
+  freeShippingThreshold: 50,
+  expressShippingRate: 20,
+  discounts: [
+    { label: 'Bulk', minQuantity: 3, percent: 10 },
+    { label: 'Big bulk', minQuantity: 5, percent: 20 },
+  ],
+};
+
+function line(id: number, price: number, quantity: number): ProductItemCart {
+  return { product: productFixture(id, { price }), quantity };
+}
+
+describe('calculateTotals', () => {
+  it('should return zeros for an empty cart', () => {
+    const totals = calculateTotals([], rules);
+
+    expect(totals.total).toBe(0);
+    expect(totals.shipping).toBe(0);
+  });
+
+  it('should charge shipping below the free-shipping threshold', () => {
+    const totals = calculateTotals([line(1, 10, 1)], rules);
+
+    expect(totals.subtotal).toBe(10);
+    expect(totals.shipping).toBe(5);
+    expect(totals.tax).toBe(1);
+    expect(totals.total).toBe(16);
+    expect(totals.amountToFreeShipping).toBe(40);
+  });
+
+  it('should make shipping free from the threshold', () => {
+    const totals = calculateTotals([line(1, 25, 2)], rules);
+
+    expect(totals.shipping).toBe(0);
+    expect(totals.amountToFreeShipping).toBe(0);
+  });
+
+  it('should apply the best matching discount per line', () => {
+    const totals = calculateTotals([line(1, 10, 3), line(2, 10, 5)], rules);
+
+    expect(totals.discount).toBe(3 + 10);
+    expect(totals.subtotal).toBe(80);
+  });
+
+  it('should round to cents without floating point drift', () => {
+    const totals = calculateTotals([line(1, 0.1, 1), line(2, 0.2, 1)], rules);
+
+    expect(totals.subtotal).toBe(0.3);
+    expect(toCents(1.005)).toBe(101);
+  });
+
+  it('should round half cents up at any price', () => {
+    expect(toCents(10.075)).toBe(1008);
+    expect(toCents(8.345)).toBe(835);
+    expect(toCents(0.1 + 0.2)).toBe(30);
+    expect(toCents(1e-7)).toBe(0);
+  });
+});
+
+describe('applyShippingMethod', () => {
+  it('should keep the standard shipping from the cart rules', () => {
+    const totals = calculateTotals([line(1, 10, 1)], rules);
+
+    expect(applyShippingMethod(totals, 'standard', rules)).toBe(totals);
+  });
+
+  it('should charge express and waive pickup shipping', () => {
+    const totals = calculateTotals([line(1, 10, 1)], rules);
+
+    expect(applyShippingMethod(totals, 'express', rules).total).toBe(31);
+    expect(applyShippingMethod(totals, 'pickup', rules).total).toBe(11);
+  });
+});
@@ -0,0 +1,162 @@
+import { computed, inject, Injectable, InjectionToken } from '@angular/core';
+import { CartStateService } from './cart-state.service';
+import { checkVoucherConditions, VoucherService } from './voucher.service';
+import { ProductItemCart } from '../interfaces/product.interface';
+import { CartTotals, PricingRules, ShippingMethod } from '../interfaces/pricing.interface';
+import { Voucher, VoucherBreakdown } from '../interfaces/voucher.interface';
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  taxRate: 0.08,
+  shippingFlatRate: 9.99,
+  freeShippingThreshold: 50,
+  expressShippingRate: 19.99,
+  discounts: [{ label: 'Descuento por volumen', minQuantity: 3, percent: 10 }],
+};
+
+/**
+ * Pricing rules used by the cart, header and checkout.
+ * Override it with `{ provide: PRICING_RULES, useValue: {...} }` to change them.
+ */
+export const PRICING_RULES = new InjectionToken<PricingRules>('PRICING_RULES', {
+  providedIn: 'root',
+  factory: () => DEFAULT_PRICING_RULES,
+});
+
+/**
+ * Converts an amount to integer cents, rounding half cents up.
+ * Multiplying by 100 turns `10.075` into `1007.4999…`, so the decimal point
+ * is moved in the number's text instead; 15 significant digits drop the
+ * noise left by earlier arithmetic.
+ */
+export function toCents(amount: number): number {
+  const [digits, exponent = '0'] = String(Number(amount.toPrecision(15))).split('e');
+  return Math.round(Number(`${digits}e${Number(exponent) + 2}`));
+}
+
+export function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * Computes the cart totals. Every step works in integer cents so the
+ * rows shown in the summary always add up to the total.
+ *
+ * Vouchers are applied after the volume discounts, in the order they were
+ * redeemed, and never take the merchandise total below zero.
+ */
+export function calculateTotals(
+  items: ProductItemCart[],
+  rules: PricingRules,
+  vouchers: Voucher[] = [],
+  now: Date = new Date(),
+): CartTotals {
+  let subtotal = 0;
+  let discount = 0;
+  const lines: { category: string; amount: number }[] = [];
+
+  for (const item of items) {
+    const lineTotal = toCents(item.product.price) * item.quantity;
+    const percent = rules.discounts
+      .filter((rule) => item.quantity >= rule.minQuantity)
+      .reduce((best, rule) => Math.max(best, rule.percent), 0);
+    const lineDiscount = Math.round((lineTotal * percent) / 100);
+
+    subtotal += lineTotal;
+    discount += lineDiscount;
+    lines.push({ category: item.product.category, amount: lineTotal - lineDiscount });
+  }
+
+  let remaining = subtotal - discount;
+  let voucherDiscount = 0;
+  let freeShippingVoucher = false;
+  const breakdown: VoucherBreakdown[] = [];
+
+  for (const voucher of vouchers) {
+    const error = checkVoucherConditions(voucher, items, now);
+    let amount = 0;
+
+    if (!error) {
+      const eligible = lines
+        .filter((line) => !voucher.categories?.length || voucher.categories.includes(line.category))
+        .reduce((total, line) => total + line.amount, 0);
+
+      if (voucher.type === 'percentage') {
+        amount = Math.round((eligible * voucher.value) / 100);
+      } else if (voucher.type === 'fixed') {
+        amount = Math.min(toCents(voucher.value), eligible);
+      } else {
+        freeShippingVoucher = true;
+      }
+
+      amount = Math.min(amount, remaining);
+      remaining -= amount;
+      voucherDiscount += amount;
+    }
+
+    breakdown.push({ voucher, discount: fromCents(amount), error });
+  }
+
+  const discounted = remaining;
+  const threshold = toCents(rules.freeShippingThreshold);
+  const freeShipping = items.length === 0 || freeShippingVoucher || discounted >= threshold;
+  const shipping = freeShipping ? 0 : toCents(rules.shippingFlatRate);
+  const tax = Math.round(discounted * rules.taxRate);
+
+  return {
+    subtotal: fromCents(subtotal),
+    discount: fromCents(discount),
+    voucherDiscount: fromCents(voucherDiscount),
+    vouchers: breakdown,
+    shipping: fromCents(shipping),
+    tax: fromCents(tax),
+    total: fromCents(discounted + shipping + tax),
+    amountToFreeShipping: freeShipping ? 0 : fromCents(threshold - discounted),
+  };
+}
+
+/**
+ * Re-prices the shipping row for the delivery method chosen at checkout.
+ * `standard` keeps the cart rules (including the free-shipping threshold).
+ */
+export function applyShippingMethod(
+  totals: CartTotals,
+  method: ShippingMethod,
+  rules: PricingRules,
+): CartTotals {
+  if (method === 'standard') {
+    return totals;
+  }
+
+  const shipping = method === 'express' ? toCents(rules.expressShippingRate) : 0;
+  const total = toCents(totals.total) - toCents(totals.shipping) + shipping;
+
+  return {
+    ...totals,
+    shipping: fromCents(shipping),
+    total: fromCents(total),
+    amountToFreeShipping: 0,
+  };
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class PricingService {
+  private cartState = inject(CartStateService).state;
+  private voucherService = inject(VoucherService);
+
+  rules = inject(PRICING_RULES);
+
+  vouchers = computed(() => this.voucherService.findAll(this.cartState.vouchers()));
+
+  totals = computed(() => calculateTotals(this.cartState.products(), this.rules, this.vouchers()));
+
+  subtotal = computed(() => this.totals().subtotal);
+  discount = computed(() => this.totals().discount);
+  voucherDiscount = computed(() => this.totals().voucherDiscount);
+  voucherBreakdown = computed(() => this.totals().vouchers);
+  shipping = computed(() => this.totals().shipping);
+  tax = computed(() => this.totals().tax);
+  total = computed(() => this.totals().total);
+  amountToFreeShipping = computed(() => this.totals().amountToFreeShipping);
+}
@@ -0,0 +1,43 @@
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom } from 'rxjs';
+import { MAX_RECENTLY_VIEWED, RecentlyViewedService } from './recently-viewed.service';
+import { MemoryStorageAdapter, provideCartStorage } from './storage-adapters';
+import { StorageService } from './storage.service';
+import { productFixture } from '../testing/product.fixture';
+
+describe('RecentlyViewedService', () => {
+  let service: RecentlyViewedService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideCartStorage(new MemoryStorageAdapter()),
+        { provide: MAX_RECENTLY_VIEWED, useValue: 3 },
+      ],
+    });
+    service = TestBed.inject(RecentlyViewedService);
+  });
+
+  it('should keep the newest views first without duplicates', () => {
+    [1, 2, 1].forEach((id) => service.state.record(productFixture(id)));
+
+    expect(service.products().map(({ id }) => id)).toEqual([1, 2]);
+  });
+
+  it('should cap the history', () => {
+    [1, 2, 3, 4].forEach((id) => service.state.record(productFixture(id)));
+
+    expect(service.products().map(({ id }) => id)).toEqual([4, 3, 2]);
+  });
+
+  it('should persist and clear the history', async () => {
+    service.state.record(productFixture(1));
+    TestBed.tick();
+    const storage = TestBed.inject(StorageService);
+    expect((await firstValueFrom(storage.loadRecentlyViewed())).length).toBe(1);
+
+    service.state.clear();
+    TestBed.tick();
+    expect(await firstValueFrom(storage.loadRecentlyViewed())).toEqual([]);
+  });
+});
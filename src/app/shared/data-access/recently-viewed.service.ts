@@ -0,0 +1,66 @@
+import { computed, inject, Injectable, InjectionToken, Signal } from "@angular/core";
+import { trackedSlice } from "./tracked-slice";
+import { map, Observable } from "rxjs";
+import { Product } from "../interfaces/product.interface";
+import { RecentlyViewedItem } from "../interfaces/recently-viewed.interface";
+import { StorageService } from "./storage.service";
+
+export const MAX_RECENTLY_VIEWED = new InjectionToken<number>('MAX_RECENTLY_VIEWED', {
+    providedIn: 'root',
+    factory: () => 12,
+});
+
+interface State {
+    items: RecentlyViewedItem[];
+    loaded: boolean;
+}
+
+/**
+ * 👀 RECENTLY VIEWED PRODUCTS
+ * Every product page visit is recorded here, newest first. Visiting a
+ * product again moves it to the front instead of duplicating it, and only
+ * the last MAX_RECENTLY_VIEWED products are kept.
+ */
+@Injectable({
+    providedIn: 'root',
+})
+export class RecentlyViewedService {
+    private _storageService = inject(StorageService);
+    private _max = inject(MAX_RECENTLY_VIEWED);
+
+    private initialState: State = {
+        items: [],
+        loaded: false,
+    };
+
+    loadItems$ = this._storageService
+        .loadRecentlyViewed()
+        .pipe(map((items) => ({ items: items.slice(0, this._max), loaded: true })));
+
+    state = trackedSlice('recently-viewed')({
+        initialState: this.initialState,
+        sources: [this.loadItems$],
+        actionSources: {
+            record: (state, action$: Observable<Product>) =>
+                action$.pipe(map((product) => this.record(state, product))),
+            clear: (_state, action$: Observable<void>) =>
+                action$.pipe(map(() => ({ items: [] }))),
+        },
+        effects: (state) => ({
+            saveItems: () => {
+                if (state.loaded()) {
+                    this._storageService.saveRecentlyViewed(state.items());
+                }
+            },
+        }),
+    });
+
+    products = computed(() => this.state.items().map(({ product }) => product));
+
+    private record(state: Signal<State>, product: Product): Partial<State> {
+        const others = state().items.filter((item) => item.product.id !== product.id);
+        return {
+            items: [{ product, viewedAt: new Date().toISOString() }, ...others].slice(0, this._max),
+        };
+    }
+}
@@ -0,0 +1,133 @@
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom } from 'rxjs';
+import { Product } from '../interfaces/product.interface';
+import { CartStateService } from './cart-state.service';
+import {
+  buildCoOccurrence,
+  DEFAULT_RECOMMENDATION_WEIGHTS,
+  MAX_RECOMMENDATIONS,
+  recommend,
+  RecommendationService,
+} from './recommendation.service';
+import { MemoryStorageAdapter, provideCartStorage } from './storage-adapters';
+import { StorageService } from './storage.service';
+import { productFixture } from '../testing/product.fixture';
+
+const product = (id: number, category: string, price: number, rate = 4) =>
+  productFixture(id, { category, price, rating: { rate, count: 1 } });
+
+const catalog = [
+  product(1, 'electronics', 100),
+  product(2, 'electronics', 110),
+  product(3, 'electronics', 900),
+  product(4, 'jewelery', 100),
+  product(5, 'jewelery', 400),
+];
+
+const options = { exclude: [], limit: 10, weights: DEFAULT_RECOMMENDATION_WEIGHTS };
+const ids = (products: Product[]) => products.map(({ id }) => id);
+
+describe('buildCoOccurrence', () => {
+  it('should count every pair in both directions, once per basket', () => {
+    expect(
+      buildCoOccurrence([
+        [1, 2, 2],
+        [1, 2, 3],
+      ]),
+    ).toEqual({
+      1: { 2: 2, 3: 1 },
+      2: { 1: 2, 3: 1 },
+      3: { 1: 1, 2: 1 },
+    });
+  });
+});
+
+describe('recommend', () => {
+  it('should rank same category and close prices first', () => {
+    expect(ids(recommend(catalog, [catalog[0]], {}, options))).toEqual([2, 3, 4, 5]);
+  });
+
+  it('should let products bought together outrank the category', () => {
+    const coOccurrence = buildCoOccurrence([[1, 5]]);
+
+    expect(ids(recommend(catalog, [catalog[0]], coOccurrence, options))[0]).toBe(5);
+  });
+
+  it('should prefer better rated products on equal affinity', () => {
+    const twins = [product(1, 'a', 10), product(2, 'a', 10, 2), product(3, 'a', 10, 5)];
+
+    expect(ids(recommend(twins, [twins[0]], {}, options))).toEqual([3, 2]);
+  });
+
+  it('should leave out the seeds, the excluded ids and cut at the limit', () => {
+    const result = recommend(catalog, [catalog[0]], {}, { ...options, exclude: [2], limit: 2 });
+
+    expect(ids(result)).toEqual([3, 4]);
+  });
+
+  it('should suggest nothing without seeds', () => {
+    expect(recommend(catalog, [], {}, options)).toEqual([]);
+  });
+});
+
+describe('RecommendationService', () => {
+  let service: RecommendationService;
+  let cart: CartStateService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideCartStorage(new MemoryStorageAdapter()),
+        { provide: MAX_RECOMMENDATIONS, useValue: 2 },
+      ],
+    });
+    cart = TestBed.inject(CartStateService);
+    service = TestBed.inject(RecommendationService);
+    TestBed.inject(HttpTestingController)
+      .expectOne((request) => request.url.endsWith('/products'))
+      .flush(catalog);
+    TestBed.tick();
+  });
+
+  it('should exclude products already in the cart', () => {
+    cart.state.add({ product: catalog[0], quantity: 1 });
+    cart.state.add({ product: catalog[1], quantity: 1 });
+    TestBed.tick();
+
+    expect(ids(service.forCart())).toEqual([3, 4]);
+    expect(ids(service.forProduct(signal(catalog[0]))())).toEqual([3, 4]);
+  });
+
+  it('should learn from carts that were emptied', async () => {
+    cart.state.add({ product: catalog[0], quantity: 1 });
+    TestBed.tick();
+    cart.state.add({ product: catalog[4], quantity: 1 });
+    TestBed.tick();
+    cart.state.clear();
+    TestBed.tick();
+
+    expect(service.state.history()).toEqual({ baskets: [[1, 5]], open: [] });
+    expect(ids(service.forProduct(signal(catalog[0]))())[0]).toBe(5);
+
+    const stored = await firstValueFrom(TestBed.inject(StorageService).loadPurchaseHistory());
+    expect(stored.baskets).toEqual([[1, 5]]);
+  });
+
+  it('should keep submitted orders as a single basket', () => {
+    cart.state.add({ product: catalog[2], quantity: 1 });
+    TestBed.tick();
+    service.state.recordOrder([
+      { product: catalog[2], quantity: 1 },
+      { product: catalog[3], quantity: 2 },
+    ]);
+    cart.state.clear();
+    TestBed.tick();
+
+    expect(service.state.history()).toEqual({ baskets: [[3, 4]], open: [] });
+  });
+});
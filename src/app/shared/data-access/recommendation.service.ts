@@ -0,0 +1,234 @@
+import { computed, inject, Injectable, InjectionToken, Signal } from "@angular/core";
+import { toObservable } from "@angular/core/rxjs-interop";
+import { trackedSlice } from "./tracked-slice";
+import { catchError, filter, map, Observable, of } from "rxjs";
+import { Product, ProductItemCart } from "../interfaces/product.interface";
+import {
+    CoOccurrence,
+    PurchaseHistory,
+    RecommendationWeights,
+} from "../interfaces/recommendation.interface";
+import { ProductsService } from "../../data-access/products.service";
+import { CartStateService } from "./cart-state.service";
+import { StorageService } from "./storage.service";
+import { APP_CONFIG } from "./app-config.service";
+
+export const DEFAULT_RECOMMENDATION_WEIGHTS: RecommendationWeights = {
+    category: 3,
+    price: 2,
+    rating: 1,
+    coOccurrence: 6,
+};
+
+export const RECOMMENDATION_WEIGHTS = new InjectionToken<RecommendationWeights>('RECOMMENDATION_WEIGHTS', {
+    providedIn: 'root',
+    factory: () => DEFAULT_RECOMMENDATION_WEIGHTS,
+});
+
+export const MAX_RECOMMENDATIONS = new InjectionToken<number>('MAX_RECOMMENDATIONS', {
+    providedIn: 'root',
+    factory: () => 4,
+});
+
+/** Oldest baskets are forgotten past this point. */
+const MAX_BASKETS = 50;
+
+/**
+ * Counts, for every product, how often each other product shared a basket with it.
+ */
+export function buildCoOccurrence(baskets: number[][]): CoOccurrence {
+    const counts: CoOccurrence = {};
+
+    for (const basket of baskets) {
+        const ids = [...new Set(basket)];
+        for (const a of ids) {
+            for (const b of ids) {
+                if (a !== b) {
+                    counts[a] ??= {};
+                    counts[a][b] = (counts[a][b] ?? 0) + 1;
+                }
+            }
+        }
+    }
+
+    return counts;
+}
+
+/**
+ * Affinity of `candidate` with the `seeds`, averaged over the seeds, plus
+ * its own rating. Each signal is normalised to 0..1 before weighting:
+ * - category: 1 when both products share it
+ * - price: 1 for the same price, approaching 0 as the prices drift apart
+ * - co-occurrence: pair count relative to the seed's most frequent pair
+ * - rating: rate out of 5
+ */
+export function scoreProduct(
+    candidate: Product,
+    seeds: Product[],
+    coOccurrence: CoOccurrence,
+    weights: RecommendationWeights,
+): number {
+    const affinity = seeds.reduce((total, seed) => {
+        const pairs = coOccurrence[seed.id] ?? {};
+        const maxPairs = Math.max(0, ...Object.values(pairs));
+        const highestPrice = Math.max(candidate.price, seed.price);
+
+        const category = candidate.category === seed.category ? 1 : 0;
+        const price = highestPrice > 0 ? 1 - Math.abs(candidate.price - seed.price) / highestPrice : 1;
+        const together = maxPairs > 0 ? (pairs[candidate.id] ?? 0) / maxPairs : 0;
+
+        return total
+            + weights.category * category
+            + weights.price * price
+            + weights.coOccurrence * together;
+    }, 0);
+
+    return affinity / seeds.length + weights.rating * ((candidate.rating?.rate ?? 0) / 5);
+}
+
+/**
+ * Best scored catalog products for the seeds, leaving out the seeds
+ * themselves and the `exclude`d ids. Ties keep the catalog order.
+ */
+export function recommend(
+    catalog: Product[],
+    seeds: Product[],
+    coOccurrence: CoOccurrence,
+    options: { exclude: number[]; limit: number; weights: RecommendationWeights },
+): Product[] {
+    if (seeds.length === 0) {
+        return [];
+    }
+
+    const excluded = new Set([...options.exclude, ...seeds.map(({ id }) => id)]);
+
+    return catalog
+        .filter(({ id }) => !excluded.has(id))
+        .map((product) => ({ product, score: scoreProduct(product, seeds, coOccurrence, options.weights) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, options.limit)
+        .map(({ product }) => product);
+}
+
+interface State {
+    catalog: Product[];
+    history: PurchaseHistory;
+    loaded: boolean;
+}
+
+/**
+ * 🛍️ "PEOPLE ALSO BOUGHT"
+ * Ranks catalog products against the cart or a single product. Besides
+ * category, price and rating, it learns from what went into the same cart
+ * or order on this device. Products already in the cart are never suggested.
+ */
+@Injectable({
+    providedIn: 'root',
+})
+export class RecommendationService {
+    private _productsService = inject(ProductsService);
+    private _storageService = inject(StorageService);
+    private _cartState = inject(CartStateService).state;
+    private _weights = inject(RECOMMENDATION_WEIGHTS);
+    private _limit = inject(MAX_RECOMMENDATIONS);
+    private _enabled = inject(APP_CONFIG).features.recommendations;
+
+    private initialState: State = {
+        catalog: [],
+        history: { baskets: [], open: [] },
+        loaded: false,
+    };
+
+    // Recommendations are a nice-to-have: a failing or disabled catalog just means none
+    loadCatalog$ = !this._enabled ? of({ catalog: [] }) : this._productsService.getAllProducts().pipe(
+        map((catalog) => ({ catalog })),
+        catchError(() => of({ catalog: [] })),
+    );
+
+    loadHistory$ = this._storageService
+        .loadPurchaseHistory()
+        .pipe(map((history) => ({ history, loaded: true })));
+
+    private cartIds$ = toObservable(
+        computed(() => this._cartState.loaded()
+            ? this._cartState.products().map(({ product }) => product.id)
+            : null),
+    );
+
+    state = trackedSlice('recommendations')({
+        initialState: this.initialState,
+        sources: [
+            this.loadCatalog$,
+            this.loadHistory$,
+            (state) => this.cartIds$.pipe(
+                filter((ids): ids is number[] => ids !== null && state().loaded),
+                map((ids) => this.trackCart(state, ids)),
+            ),
+        ],
+        actionSources: {
+            recordOrder: (state, action$: Observable<ProductItemCart[]>) =>
+                action$.pipe(map((items) => this.recordOrder(state, items))),
+        },
+        effects: (state) => ({
+            saveHistory: () => {
+                if (state.loaded()) {
+                    this._storageService.savePurchaseHistory(state.history());
+                }
+            },
+        }),
+    });
+
+    coOccurrence = computed(() => {
+        const { baskets, open } = this.state.history();
+        return buildCoOccurrence([...baskets, open]);
+    });
+
+    /** Suggestions for the whole cart. */
+    forCart = computed(() =>
+        this.recommendFor(this._cartState.products().map(({ product }) => product)),
+    );
+
+    /** Suggestions for a single product, e.g. the one on the detail page. */
+    forProduct(product: Signal<Product | null>): Signal<Product[]> {
+        return computed(() => {
+            const seed = product();
+            return seed ? this.recommendFor([seed]) : [];
+        });
+    }
+
+    private recommendFor(seeds: Product[]): Product[] {
+        return recommend(this.state.catalog(), seeds, this.coOccurrence(), {
+            exclude: this._cartState.products().map(({ product }) => product.id),
+            limit: this._limit,
+            weights: this._weights,
+        });
+    }
+
+    /**
+     * Products stay in the open basket even when removed later, as the user
+     * still considered them together. Emptying the cart closes the basket.
+     */
+    private trackCart(state: Signal<State>, ids: number[]): Partial<State> {
+        const { baskets, open } = state().history;
+
+        if (ids.length === 0) {
+            return open.length === 0 ? {} : { history: { baskets: closeBasket(baskets, open), open: [] } };
+        }
+
+        const added = ids.filter((id) => !open.includes(id));
+        return added.length === 0 ? {} : { history: { baskets, open: [...open, ...added] } };
+    }
+
+    /**
+     * A submitted order closes the open basket with exactly what was bought.
+     */
+    private recordOrder(state: Signal<State>, items: ProductItemCart[]): Partial<State> {
+        const ids = items.map(({ product }) => product.id);
+        return { history: { baskets: closeBasket(state().history.baskets, ids), open: [] } };
+    }
+}
+
+/** Single products teach nothing about pairs, so they are not kept. */
+function closeBasket(baskets: number[][], basket: number[]): number[][] {
+    return basket.length < 2 ? baskets : [...baskets, basket].slice(-MAX_BASKETS);
+}
@@ -0,0 +1,46 @@
+import {
+  HttpClient,
+  HttpErrorResponse,
+  provideHttpClient,
+  withInterceptors,
+} from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+import { APP_CONFIG, DEFAULT_APP_CONFIG } from './app-config.service';
+import { requestTimeoutInterceptor } from './request-timeout.interceptor';
+
+const URL = 'https://fakestoreapi.com/products';
+
+describe('requestTimeoutInterceptor', () => {
+  let http: HttpClient;
+  let backend: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([requestTimeoutInterceptor])),
+        provideHttpClientTesting(),
+        { provide: APP_CONFIG, useValue: { ...DEFAULT_APP_CONFIG, timeouts: { request: 5 } } },
+      ],
+    });
+    http = TestBed.inject(HttpClient);
+    backend = TestBed.inject(HttpTestingController);
+  });
+
+  it('should fail a hanging request as unreachable', async () => {
+    const failure = new Promise<unknown>((resolve) => http.get(URL).subscribe({ error: resolve }));
+    const request = backend.expectOne(URL);
+
+    const error = await failure;
+    expect(error instanceof HttpErrorResponse && error.status).toBe(0);
+    expect(request.cancelled).toBeTrue();
+  });
+
+  it('should let answers within the limit through', () => {
+    let body: unknown;
+    http.get(URL).subscribe((response) => (body = response));
+    backend.expectOne(URL).flush([1]);
+
+    expect(body).toEqual([1]);
+  });
+});
@@ -0,0 +1,30 @@
+import { HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { throwError, timeout } from 'rxjs';
+import { APP_CONFIG } from './app-config.service';
+
+/**
+ * Fails requests that go `timeouts.request` without any news from the
+ * server. The failure is a status 0 `HttpErrorResponse`, like any
+ * unreachable server, so retries and the offline fallback treat a hanging
+ * request the same way.
+ */
+export const requestTimeoutInterceptor: HttpInterceptorFn = (req, next) => {
+  const { request } = inject(APP_CONFIG).timeouts;
+
+  return next(req).pipe(
+    timeout({
+      // `each`: the Sent event arrives at once, the timer runs again for the response
+      each: request,
+      with: () =>
+        throwError(
+          () =>
+            new HttpErrorResponse({
+              status: 0,
+              statusText: 'Request timed out',
+              url: req.urlWithParams,
+            }),
+        ),
+    }),
+  );
+};
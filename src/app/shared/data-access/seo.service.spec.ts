@@ -0,0 +1,116 @@
+import { Component, DOCUMENT, inject, PLATFORM_ID } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { Meta, Title } from '@angular/platform-browser';
+import { provideRouter } from '@angular/router';
+import { RouterTestingHarness } from '@angular/router/testing';
+import { APP_CONFIG, DEFAULT_APP_CONFIG } from './app-config.service';
+import { provideSeo, SeoService } from './seo.service';
+
+@Component({ selector: 'app-plain-page', template: '' })
+class PlainPage {}
+
+@Component({ selector: 'app-product-page', template: '' })
+class ProductPage {
+  constructor() {
+    inject(SeoService).bind(() => ({
+      title: 'Ring',
+      description: 'A ring',
+      image: 'https://img.example.com/ring.jpg',
+      type: 'product',
+      jsonLd: { '@type': 'Product', name: '</script>' },
+    }));
+  }
+}
+
+describe('SeoService', () => {
+  let router: RouterTestingHarness;
+  let meta: Meta;
+  let head: HTMLHeadElement;
+
+  const content = (selector: string) => meta.getTag(selector)?.content ?? null;
+  const canonical = () => head.querySelector('link[rel="canonical"]')?.getAttribute('href');
+  const jsonLd = () => head.querySelector('script[type="application/ld+json"]');
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([
+          { path: 'cart', title: 'Carrito', component: PlainPage },
+          { path: 'product/:id', title: 'Producto', component: ProductPage },
+        ]),
+        provideSeo(),
+        {
+          provide: APP_CONFIG,
+          useValue: { ...DEFAULT_APP_CONFIG, siteUrl: 'https://shop.example.com' },
+        },
+      ],
+    });
+    router = await RouterTestingHarness.create();
+    meta = TestBed.inject(Meta);
+    head = TestBed.inject(DOCUMENT).head;
+  });
+
+  afterEach(() => jsonLd()?.remove());
+
+  it('should fall back to the route title and site description', async () => {
+    await router.navigateByUrl('/cart?from=header');
+    TestBed.tick();
+
+    expect(TestBed.inject(Title).getTitle()).toBe('Carrito | Signal Store');
+    expect(content('name="description"')).toContain('electrónica');
+    expect(content('name="twitter:card"')).toBe('summary');
+    expect(canonical()).toBe('https://shop.example.com/cart');
+    expect(jsonLd()).toBeNull();
+  });
+
+  it('should apply the metadata bound by the page', async () => {
+    await router.navigateByUrl('/product/1');
+    TestBed.tick();
+
+    expect(TestBed.inject(Title).getTitle()).toBe('Ring | Signal Store');
+    expect(content('property="og:type"')).toBe('product');
+    expect(content('property="og:url"')).toBe('https://shop.example.com/product/1');
+    expect(content('name="twitter:image"')).toBe('https://img.example.com/ring.jpg');
+    expect(jsonLd()?.textContent).toBe('{"@type":"Product","name":"\\u003c/script>"}');
+  });
+
+  it('should drop the page metadata once the page is left', async () => {
+    await router.navigateByUrl('/product/1');
+    TestBed.tick();
+    await router.navigateByUrl('/cart');
+    TestBed.tick();
+
+    expect(TestBed.inject(Title).getTitle()).toBe('Carrito | Signal Store');
+    expect(meta.getTag('property="og:image"')).toBeNull();
+    expect(jsonLd()).toBeNull();
+  });
+
+  it('should keep the page in the canonical URL', async () => {
+    await router.navigateByUrl('/cart?page=2&from=header');
+    TestBed.tick();
+
+    expect(canonical()).toBe('https://shop.example.com/cart?page=2');
+    expect(content('property="og:url"')).toBe('https://shop.example.com/cart?page=2');
+  });
+});
+
+describe('SeoService on the server', () => {
+  it('should leave out the URLs when the site URL is not configured', async () => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([{ path: 'cart', title: 'Carrito', component: PlainPage }]),
+        provideSeo(),
+        { provide: APP_CONFIG, useValue: DEFAULT_APP_CONFIG },
+        { provide: PLATFORM_ID, useValue: 'server' },
+      ],
+    });
+    const router = await RouterTestingHarness.create();
+
+    await router.navigateByUrl('/cart');
+    TestBed.tick();
+
+    const head = TestBed.inject(DOCUMENT).head;
+    expect(head.querySelector('link[rel="canonical"]')).toBeNull();
+    expect(TestBed.inject(Meta).getTag('property="og:url"')).toBeNull();
+  });
+});
@@ -0,0 +1,201 @@
+import { isPlatformBrowser } from '@angular/common';
+import {
+  computed,
+  DestroyRef,
+  DOCUMENT,
+  effect,
+  EnvironmentProviders,
+  inject,
+  Injectable,
+  InjectionToken,
+  makeEnvironmentProviders,
+  PLATFORM_ID,
+  Signal,
+  signal,
+} from '@angular/core';
+import { Meta, MetaDefinition, Title } from '@angular/platform-browser';
+import { RouterStateSnapshot, TitleStrategy } from '@angular/router';
+import { JsonLd, PageMeta, SeoConfig } from '../interfaces/seo.interface';
+import { APP_CONFIG } from './app-config.service';
+
+export const DEFAULT_SEO_CONFIG: SeoConfig = {
+  siteName: 'Signal Store',
+  description: 'Ropa, joyería y electrónica con las mejores valoraciones, al mejor precio.',
+  currency: 'USD',
+};
+
+export const SEO_CONFIG = new InjectionToken<SeoConfig>('SEO_CONFIG', {
+  providedIn: 'root',
+  factory: () => DEFAULT_SEO_CONFIG,
+});
+
+const JSON_LD_ID = 'page-json-ld';
+
+interface RouteMeta {
+  /** Path of the route and its `page` query param, the only one kept. */
+  path: string;
+  meta: PageMeta;
+}
+
+/**
+ * Title, description, canonical URL, Open Graph/Twitter tags and JSON-LD
+ * of the current page. Every navigation resets them to the route's
+ * `title`; a page with more to say binds its own metadata on top.
+ * Tags are written to the document, so the server renders them too.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class SeoService {
+  readonly config = inject(SEO_CONFIG);
+  private title = inject(Title);
+  private meta = inject(Meta);
+  private document = inject(DOCUMENT);
+  private siteUrl = inject(APP_CONFIG).siteUrl;
+  private isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+
+  private route = signal<RouteMeta | null>(null);
+  private page = signal<Signal<PageMeta | null> | null>(null);
+
+  constructor() {
+    effect(() => {
+      const route = this.route();
+      if (route) {
+        this.apply(route.path, { ...route.meta, ...this.page()?.() });
+      }
+    });
+  }
+
+  /** Called by `SeoTitleStrategy` once a navigation ends. */
+  setRoute(path: string, meta: PageMeta): void {
+    this.route.set({ path, meta });
+  }
+
+  /**
+   * Binds the metadata of the calling page until it is destroyed.
+   * `null` (e.g. while loading) keeps the route defaults.
+   * Must run in an injection context, typically a component constructor.
+   */
+  bind(meta: () => PageMeta | null): void {
+    const source = computed(meta);
+    this.page.set(source);
+
+    inject(DestroyRef).onDestroy(() => {
+      if (this.page() === source) {
+        this.page.set(null);
+      }
+    });
+  }
+
+  /**
+   * Absolute URL of an app path, as search engines should index it.
+   * `null` on the server without a configured `siteUrl`: a prerendered
+   * page would otherwise point at the machine that built it.
+   */
+  absoluteUrl(path: string): string | null {
+    const origin = this.siteUrl ?? (this.isBrowser ? this.document.location.origin : null);
+    return origin ? new URL(path, origin).href : null;
+  }
+
+  private apply(path: string, meta: PageMeta): void {
+    const { siteName } = this.config;
+    const url = this.absoluteUrl(path);
+    const title = meta.title || siteName;
+
+    this.title.setTitle(meta.title ? `${meta.title} | ${siteName}` : siteName);
+    this.setTags([
+      { name: 'description', content: meta.description },
+      { property: 'og:site_name', content: siteName },
+      { property: 'og:type', content: meta.type ?? 'website' },
+      { property: 'og:title', content: title },
+      { property: 'og:description', content: meta.description },
+      { property: 'og:url', content: url ?? '' },
+      { property: 'og:image', content: meta.image ?? '' },
+      { name: 'twitter:card', content: meta.image ? 'summary_large_image' : 'summary' },
+      { name: 'twitter:title', content: title },
+      { name: 'twitter:description', content: meta.description },
+      { name: 'twitter:image', content: meta.image ?? '' },
+    ]);
+    this.setCanonical(url);
+    this.setJsonLd(meta.jsonLd ?? null);
+  }
+
+  /** Tags without content are removed rather than left stale. */
+  private setTags(tags: MetaDefinition[]): void {
+    for (const tag of tags) {
+      const selector = tag.name ? `name="${tag.name}"` : `property="${tag.property}"`;
+      if (tag.content) {
+        this.meta.updateTag(tag, selector);
+      } else {
+        this.meta.removeTag(selector);
+      }
+    }
+  }
+
+  private setCanonical(url: string | null): void {
+    const head = this.document.head;
+    let link = head.querySelector<HTMLLinkElement>('link[rel="canonical"]');
+
+    if (!url) {
+      link?.remove();
+      return;
+    }
+    if (!link) {
+      link = this.document.createElement('link');
+      link.setAttribute('rel', 'canonical');
+      head.appendChild(link);
+    }
+    link.setAttribute('href', url);
+  }
+
+  private setJsonLd(data: JsonLd | null): void {
+    const head = this.document.head;
+    let script = head.querySelector<HTMLScriptElement>(`script#${JSON_LD_ID}`);
+
+    if (!data) {
+      script?.remove();
+      return;
+    }
+    if (!script) {
+      script = this.document.createElement('script');
+      script.setAttribute('type', 'application/ld+json');
+      script.id = JSON_LD_ID;
+      head.appendChild(script);
+    }
+    // "<" escaped so a "</script>" in product data cannot close the tag
+    script.textContent = JSON.stringify(data).replace(/</g, '\\u003c');
+  }
+}
+
+/**
+ * Replaces the router's title handling: the route `title` and URL become
+ * the page defaults in `SeoService`. Of the query params only `page` is
+ * kept, as the one that changes what the page lists.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class SeoTitleStrategy extends TitleStrategy {
+  private seo = inject(SeoService);
+
+  override updateTitle(snapshot: RouterStateSnapshot): void {
+    const [path] = snapshot.url.split(/[?#]/);
+    const page = Number(snapshot.root.queryParams['page']);
+
+    this.seo.setRoute(Number.isInteger(page) && page > 1 ? `${path}?page=${page}` : path, {
+      title: this.buildTitle(snapshot) ?? '',
+      description: this.seo.config.description,
+    });
+  }
+}
+
+/**
+ * Per-route SEO metadata, e.g. `provideSeo({ siteName: 'Mi tienda' })`.
+ * The origin of the URLs is the runtime config's `siteUrl`.
+ */
+export function provideSeo(config: Partial<SeoConfig> = {}): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    { provide: SEO_CONFIG, useValue: { ...DEFAULT_SEO_CONFIG, ...config } },
+    { provide: TitleStrategy, useExisting: SeoTitleStrategy },
+  ]);
+}
@@ -0,0 +1,77 @@
+import { PLATFORM_ID } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom } from 'rxjs';
+import { StorageAdapter } from '../interfaces/storage.interface';
+import {
+  CART_STORAGE_ADAPTER,
+  IndexedDbStorageAdapter,
+  MemoryStorageAdapter,
+  provideCartStorage,
+  WebStorageAdapter,
+} from './storage-adapters';
+
+function behavesLikeStorage(name: string, create: () => StorageAdapter) {
+  describe(name, () => {
+    let adapter: StorageAdapter;
+
+    beforeEach(() => (adapter = create()));
+
+    it('should read back what it writes', async () => {
+      await firstValueFrom(adapter.setItem('key', 'value'));
+
+      expect(await firstValueFrom(adapter.getItem('key'))).toBe('value');
+    });
+
+    it('should return null for missing or removed keys', async () => {
+      await firstValueFrom(adapter.setItem('key', 'value'));
+      await firstValueFrom(adapter.removeItem('key'));
+
+      expect(await firstValueFrom(adapter.getItem('key'))).toBeNull();
+    });
+  });
+}
+
+behavesLikeStorage('MemoryStorageAdapter', () => new MemoryStorageAdapter());
+behavesLikeStorage('WebStorageAdapter', () => {
+  sessionStorage.clear();
+  return new WebStorageAdapter(sessionStorage);
+});
+behavesLikeStorage(
+  'IndexedDbStorageAdapter',
+  () => new IndexedDbStorageAdapter('storage-adapters-spec'),
+);
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+describe('IndexedDbStorageAdapter', () => {
+  const name = 'storage-adapters-retry-spec';
+
+  afterEach(() => settle(indexedDB.deleteDatabase(name)));
+
+  it('should open the database again after a failed open', async () => {
+    // A newer version than the adapter asks for makes its first open fail
+    (await settle(indexedDB.open(name, 2))).close();
+    const adapter = new IndexedDbStorageAdapter(name);
+
+    await expectAsync(firstValueFrom(adapter.getItem('key'))).toBeRejected();
+
+    await settle(indexedDB.deleteDatabase(name));
+    await firstValueFrom(adapter.setItem('key', 'value'));
+    expect(await firstValueFrom(adapter.getItem('key'))).toBe('value');
+  });
+});
+
+describe('CART_STORAGE_ADAPTER on the server', () => {
+  it('should fall back to memory whatever backend is chosen', () => {
+    TestBed.configureTestingModule({
+      providers: [{ provide: PLATFORM_ID, useValue: 'server' }, provideCartStorage('indexeddb')],
+    });
+
+    expect(TestBed.inject(CART_STORAGE_ADAPTER)).toBeInstanceOf(MemoryStorageAdapter);
+  });
+});
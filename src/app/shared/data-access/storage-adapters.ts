@@ -0,0 +1,194 @@
+import { isPlatformBrowser } from '@angular/common';
+import {
+  EnvironmentProviders,
+  inject,
+  InjectionToken,
+  makeEnvironmentProviders,
+  PLATFORM_ID,
+} from '@angular/core';
+import { defer, map, Observable, of } from 'rxjs';
+import { CartStorageBackend, StorageAdapter } from '../interfaces/storage.interface';
+
+/**
+ * Keeps everything in a Map. Used in tests, on the server and wherever no
+ * browser storage exists.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private items = new Map<string, string>();
+
+  getItem(key: string): Observable<string | null> {
+    return defer(() => of(this.items.get(key) ?? null));
+  }
+
+  setItem(key: string, value: string): Observable<void> {
+    return defer(() => {
+      this.items.set(key, value);
+      return of(undefined);
+    });
+  }
+
+  removeItem(key: string): Observable<void> {
+    return defer(() => {
+      this.items.delete(key);
+      return of(undefined);
+    });
+  }
+}
+
+/**
+ * Wraps `localStorage` or `sessionStorage`. Errors such as a full quota
+ * surface as Observable errors instead of exceptions.
+ */
+export class WebStorageAdapter implements StorageAdapter {
+  constructor(private storage: Storage) {}
+
+  getItem(key: string): Observable<string | null> {
+    return defer(() => of(this.storage.getItem(key)));
+  }
+
+  setItem(key: string, value: string): Observable<void> {
+    return defer(() => of(this.storage.setItem(key, value)));
+  }
+
+  removeItem(key: string): Observable<void> {
+    return defer(() => of(this.storage.removeItem(key)));
+  }
+}
+
+/**
+ * Stores values in a single IndexedDB object store. Suited to large carts,
+ * as it is not bound by the ~5 MB Web Storage quota.
+ */
+export class IndexedDbStorageAdapter implements StorageAdapter {
+  private db?: Promise<IDBDatabase>;
+
+  constructor(
+    private databaseName = 'signal-store',
+    private storeName = 'keyval',
+  ) {}
+
+  getItem(key: string): Observable<string | null> {
+    return defer(() => this.request('readonly', (store) => store.get(key))).pipe(
+      map((value) => (typeof value === 'string' ? value : null)),
+    );
+  }
+
+  setItem(key: string, value: string): Observable<void> {
+    return defer(() => this.request('readwrite', (store) => store.put(value, key))).pipe(
+      map(() => undefined),
+    );
+  }
+
+  removeItem(key: string): Observable<void> {
+    return defer(() => this.request('readwrite', (store) => store.delete(key))).pipe(
+      map(() => undefined),
+    );
+  }
+
+  /**
+   * A failed or blocked open is not cached, so the next operation tries again.
+   * The connection is given up when another tab needs to upgrade the database.
+   */
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise<IDBDatabase>((resolve, reject) => {
+      let blocked = false;
+      const request = indexedDB.open(this.databaseName, 1);
+
+      request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+      request.onsuccess = () => {
+        const db = request.result;
+        if (blocked) {
+          db.close(); // The caller already got the error
+          return;
+        }
+        db.onversionchange = () => this.close(db);
+        db.onclose = () => this.close(db);
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => {
+        blocked = true;
+        reject(new Error(`IndexedDB "${this.databaseName}" is blocked by another tab`));
+      };
+    }).catch((error) => {
+      this.db = undefined;
+      throw error;
+    });
+
+    return this.db;
+  }
+
+  private close(db: IDBDatabase): void {
+    db.close();
+    this.db = undefined;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    const db = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+/**
+ * Builds the adapter for a backend, falling back to memory when the
+ * backend does not exist in the current environment.
+ */
+export function createStorageAdapter(backend: CartStorageBackend): StorageAdapter {
+  switch (backend) {
+    case 'local':
+      return typeof localStorage !== 'undefined'
+        ? new WebStorageAdapter(localStorage)
+        : new MemoryStorageAdapter();
+    case 'session':
+      return typeof sessionStorage !== 'undefined'
+        ? new WebStorageAdapter(sessionStorage)
+        : new MemoryStorageAdapter();
+    case 'indexeddb':
+      return typeof indexedDB !== 'undefined'
+        ? new IndexedDbStorageAdapter()
+        : new MemoryStorageAdapter();
+    case 'memory':
+      return new MemoryStorageAdapter();
+  }
+}
+
+/**
+ * The adapter for `backend` in the browser. The server renders every request
+ * with empty storage: Node may expose globals such as `localStorage`, but
+ * they would be shared by all the users it renders for.
+ */
+export function injectStorageAdapter(backend: CartStorageBackend): StorageAdapter {
+  return isPlatformBrowser(inject(PLATFORM_ID))
+    ? createStorageAdapter(backend)
+    : new MemoryStorageAdapter();
+}
+
+export const CART_STORAGE_ADAPTER = new InjectionToken<StorageAdapter>('CART_STORAGE_ADAPTER', {
+  providedIn: 'root',
+  factory: () => injectStorageAdapter('local'),
+});
+
+/**
+ * Selects where the cart is persisted, e.g. `provideCartStorage('indexeddb')`.
+ * A custom StorageAdapter instance can be passed as well.
+ */
+export function provideCartStorage(
+  backend: CartStorageBackend | StorageAdapter = 'local',
+): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    {
+      provide: CART_STORAGE_ADAPTER,
+      useFactory: () => (typeof backend === 'string' ? injectStorageAdapter(backend) : backend),
+    },
+  ]);
+}
@@ -0,0 +1,115 @@
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom, throwError } from 'rxjs';
+import { NotificationService } from './notification.service';
+import { MemoryStorageAdapter, provideCartStorage } from './storage-adapters';
+import {
+  CART_QUARANTINE_KEY,
+  CART_SCHEMA_VERSION,
+  CART_STORAGE_KEY,
+  StorageService,
+} from './storage.service';
+
+const emptyClock = { lines: {}, vouchers: 0 };
+
+const item = {
+  product: {
+    id: 1,
+    title: 'Backpack',
+    price: 109.95,
+    description: '',
+    category: "men's clothing",
+    image: '',
+    rating: { rate: 3.9, count: 120 },
+  },
+  quantity: 2,
+};
+
+describe('StorageService', () => {
+  let service: StorageService;
+  let adapter: MemoryStorageAdapter;
+
+  const read = (key: string) => firstValueFrom(adapter.getItem(key));
+
+  beforeEach(() => {
+    adapter = new MemoryStorageAdapter();
+    TestBed.configureTestingModule({
+      providers: [provideCartStorage(adapter)],
+    });
+    service = TestBed.inject(StorageService);
+  });
+
+  it('should migrate the legacy products key into a versioned envelope', async () => {
+    await firstValueFrom(adapter.setItem('products', JSON.stringify([item])));
+
+    const cart = await firstValueFrom(service.loadCart());
+
+    expect(cart).toEqual({ products: [item], vouchers: [], clock: emptyClock });
+    expect(await read('products')).toBeNull();
+    expect(JSON.parse((await read(CART_STORAGE_KEY))!).version).toBe(CART_SCHEMA_VERSION);
+  });
+
+  it('should quarantine invalid lines and keep the valid ones', async () => {
+    service.saveCart({
+      products: [item, { product: null, quantity: 1 }] as never,
+      vouchers: [],
+      clock: emptyClock,
+    });
+
+    const cart = await firstValueFrom(service.loadCart());
+
+    expect(cart.products).toEqual([item]);
+    expect((await firstValueFrom(service.loadQuarantine())).length).toBe(1);
+  });
+
+  it('should fall back to an empty cart when the payload is corrupt', async () => {
+    await firstValueFrom(adapter.setItem(CART_STORAGE_KEY, '{not json'));
+
+    const cart = await firstValueFrom(service.loadCart());
+
+    expect(cart).toEqual({ products: [], vouchers: [], clock: emptyClock });
+    expect(await read(CART_STORAGE_KEY)).toBeNull();
+    expect(JSON.parse((await read(CART_QUARANTINE_KEY))!)[0].value).toBe('{not json');
+  });
+
+  it('should leave a cart written by a newer version in place', async () => {
+    const newer = JSON.stringify({ version: CART_SCHEMA_VERSION + 1, savedAt: null, data: {} });
+    await firstValueFrom(adapter.setItem(CART_STORAGE_KEY, newer));
+
+    const cart = await firstValueFrom(service.loadCart());
+    service.saveCart({ products: [item], vouchers: [], clock: emptyClock });
+
+    expect(cart).toEqual({ products: [], vouchers: [], clock: emptyClock });
+    expect(await read(CART_STORAGE_KEY)).toBe(newer);
+    expect(await read(CART_QUARANTINE_KEY)).toBeNull();
+  });
+
+  it('should quarantine a corrupt legacy cart once and drop the legacy keys', async () => {
+    await firstValueFrom(adapter.setItem('products', '[{broken'));
+    await firstValueFrom(adapter.setItem('vouchers', '["TEN"]'));
+
+    expect(await firstValueFrom(service.loadCart())).toEqual({
+      products: [],
+      vouchers: [],
+      clock: emptyClock,
+    });
+    expect(await read('products')).toBeNull();
+    expect(await read('vouchers')).toBeNull();
+    expect(JSON.parse((await read(CART_QUARANTINE_KEY))!)[0].value).toEqual({
+      products: '[{broken',
+      vouchers: '["TEN"]',
+    });
+
+    await firstValueFrom(service.loadCart());
+    expect((await firstValueFrom(service.loadQuarantine())).length).toBe(1);
+    expect(TestBed.inject(NotificationService).notifications().length).toBe(1);
+  });
+
+  it('should tell the user when a write fails', () => {
+    spyOn(adapter, 'setItem').and.returnValue(throwError(() => new Error('QuotaExceededError')));
+
+    service.saveWishlist([]);
+
+    const [toast] = TestBed.inject(NotificationService).notifications();
+    expect(toast.variant).toBe('error');
+  });
+});
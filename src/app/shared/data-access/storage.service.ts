@@ -1,18 +1,355 @@
-import { Injectable } from "@angular/core";
-import { Observable, of } from "rxjs";
+import { inject, Injectable, InjectionToken } from "@angular/core";
+import { catchError, defer, forkJoin, map, Observable, of, switchMap } from "rxjs";
 import { ProductItemCart } from "../interfaces/product.interface";
+import { CheckoutDraft } from "../interfaces/order.interface";
+import { WishlistItem } from "../interfaces/wishlist.interface";
+import { RecentlyViewedItem } from "../interfaces/recently-viewed.interface";
+import { PurchaseHistory } from "../interfaces/recommendation.interface";
+import {
+    CartClock,
+    CartSnapshot,
+    MigrationRegistry,
+    QuarantineEntry,
+} from "../interfaces/storage.interface";
+import { createEnvelope, isEnvelope, migrate, StorageMigrationError } from "./versioned-storage";
+import { CART_STORAGE_ADAPTER } from "./storage-adapters";
+import { NotificationService } from "./notification.service";
+
+export const CART_STORAGE_KEY = 'cart';
+export const CART_QUARANTINE_KEY = 'cart-quarantine';
+export const CART_SCHEMA_VERSION = 3;
+export const WISHLIST_STORAGE_KEY = 'wishlist';
+export const WISHLIST_SCHEMA_VERSION = 1;
+export const RECENTLY_VIEWED_STORAGE_KEY = 'recently-viewed';
+export const RECENTLY_VIEWED_SCHEMA_VERSION = 1;
+export const PURCHASE_HISTORY_STORAGE_KEY = 'purchase-history';
+export const PURCHASE_HISTORY_SCHEMA_VERSION = 1;
+
+const LEGACY_PRODUCTS_KEY = 'products';
+const LEGACY_VOUCHERS_KEY = 'vouchers';
+const MAX_QUARANTINE_ENTRIES = 10;
+
+/**
+ * Cart schema history:
+ * - v1: bare ProductItemCart[] (the old unversioned 'products' key)
+ * - v2: { products, vouchers }
+ * - v3: { products, vouchers, clock } for cross-tab merging
+ */
+export const DEFAULT_CART_MIGRATIONS: MigrationRegistry = {
+    1: (products) => ({ products, vouchers: [] }),
+    2: (cart) => ({ ...(cart as object), clock: { lines: {}, vouchers: 0 } }),
+};
+
+export const CART_MIGRATIONS = new InjectionToken<MigrationRegistry>('CART_MIGRATIONS', {
+    providedIn: 'root',
+    factory: () => DEFAULT_CART_MIGRATIONS,
+});
+
+const EMPTY_CART: CartSnapshot = { products: [], vouchers: [], clock: { lines: {}, vouchers: 0 } };
+const EMPTY_PURCHASE_HISTORY: PurchaseHistory = { baskets: [], open: [] };
+
+export function isProductItemCart(value: unknown): value is ProductItemCart {
+    const item = value as ProductItemCart;
+    return (
+        typeof item === 'object' && item !== null &&
+        Number.isInteger(item.quantity) && item.quantity > 0 &&
+        typeof item.product === 'object' && item.product !== null &&
+        typeof item.product.id === 'number' &&
+        typeof item.product.title === 'string' &&
+        typeof item.product.price === 'number' && Number.isFinite(item.product.price)
+    );
+}
+
+/**
+ * Keeps the valid parts of a migrated cart and reports the rest.
+ */
+export function sanitizeCart(data: unknown): { snapshot: CartSnapshot; rejected: unknown[] } {
+    if (typeof data !== 'object' || data === null || !Array.isArray((data as CartSnapshot).products)) {
+        throw new StorageMigrationError('Cart payload has no products list');
+    }
+
+    const { products, vouchers, clock } = data as CartSnapshot;
+    const rejected = products.filter((item) => !isProductItemCart(item));
+
+    return {
+        snapshot: {
+            products: products.filter(isProductItemCart),
+            vouchers: Array.isArray(vouchers)
+                ? vouchers.filter((code): code is string => typeof code === 'string')
+                : [],
+            clock: sanitizeClock(clock),
+        },
+        rejected,
+    };
+}
+
+/**
+ * Decodes a raw envelope written by another tab. Throws when it cannot be used.
+ */
+export function decodeCart(raw: string, migrations: MigrationRegistry): CartSnapshot {
+    const stored = JSON.parse(raw);
+
+    if (!isEnvelope(stored)) {
+        throw new StorageMigrationError('Cart payload is not a storage envelope');
+    }
+
+    return sanitizeCart(migrate(stored, migrations, CART_SCHEMA_VERSION).data).snapshot;
+}
+
+function isIdList(value: unknown): value is number[] {
+    return Array.isArray(value) && value.every((id) => Number.isInteger(id));
+}
+
+function sanitizeClock(clock: unknown): CartClock {
+    const { lines, vouchers } = (clock ?? {}) as Partial<CartClock>;
+    const validLines = Object.entries(typeof lines === 'object' && lines !== null ? lines : {})
+        .filter(([, time]) => typeof time === 'number' && Number.isFinite(time));
+
+    return {
+        lines: Object.fromEntries(validLines),
+        vouchers: typeof vouchers === 'number' && Number.isFinite(vouchers) ? vouchers : 0,
+    };
+}
 
 @Injectable({
   providedIn: "root",
 })
 export class StorageService {
-    loadProducts(): Observable<ProductItemCart[]> {
-        const rawProducts = localStorage.getItem('products');
+    private migrations = inject(CART_MIGRATIONS);
+    private adapter = inject(CART_STORAGE_ADAPTER);
+    private notifications = inject(NotificationService);
+
+    /**
+     * Set when the stored cart was written by a newer version of the app,
+     * e.g. another tab already running the next deploy. This bundle cannot
+     * read it, so it shows an empty cart and leaves the stored one untouched.
+     */
+    private newerCartStored = false;
+
+    /**
+     * Restores the cart, upgrading older payloads to CART_SCHEMA_VERSION.
+     * Invalid lines and unreadable payloads are quarantined; the stream never errors.
+     * Payloads from a newer version are ignored, never quarantined or replaced.
+     */
+    loadCart(): Observable<CartSnapshot> {
+        return this.adapter.getItem(CART_STORAGE_KEY).pipe(
+            switchMap((raw) => raw !== null
+                ? this.readCart(raw, () => JSON.parse(raw), [CART_STORAGE_KEY])
+                : this.readLegacyCart()),
+            catchError(() => of(EMPTY_CART)),
+        );
+    }
+
+    saveCart(cart: CartSnapshot): void {
+        if (this.newerCartStored) {
+            return;
+        }
+
+        this.write(
+            this.adapter.setItem(
+                CART_STORAGE_KEY,
+                JSON.stringify(createEnvelope(cart, CART_SCHEMA_VERSION)),
+            ),
+        );
+    }
+
+    loadQuarantine(): Observable<QuarantineEntry[]> {
+        return this.adapter.getItem(CART_QUARANTINE_KEY).pipe(
+            map((raw) => JSON.parse(raw ?? '[]')),
+            map((entries) => (Array.isArray(entries) ? entries : [])),
+            catchError(() => of([])),
+        );
+    }
+
+    /**
+     * Restores the wishlist. Entries that are not valid products are dropped;
+     * an unreadable payload yields an empty list.
+     */
+    loadWishlist(): Observable<WishlistItem[]> {
+        return this.readProductList<WishlistItem>(WISHLIST_STORAGE_KEY, 'addedAt');
+    }
+
+    saveWishlist(items: WishlistItem[]): void {
+        this.writeList(WISHLIST_STORAGE_KEY, items, WISHLIST_SCHEMA_VERSION);
+    }
+
+    loadRecentlyViewed(): Observable<RecentlyViewedItem[]> {
+        return this.readProductList<RecentlyViewedItem>(RECENTLY_VIEWED_STORAGE_KEY, 'viewedAt');
+    }
+
+    saveRecentlyViewed(items: RecentlyViewedItem[]): void {
+        this.writeList(RECENTLY_VIEWED_STORAGE_KEY, items, RECENTLY_VIEWED_SCHEMA_VERSION);
+    }
+
+    /**
+     * Restores the baskets used for "people also bought". Malformed baskets
+     * are dropped; an unreadable payload yields an empty history.
+     */
+    loadPurchaseHistory(): Observable<PurchaseHistory> {
+        return this.adapter.getItem(PURCHASE_HISTORY_STORAGE_KEY).pipe(
+            map((raw) => {
+                const stored: unknown = raw ? JSON.parse(raw) : null;
+                if (!isEnvelope(stored) || typeof stored.data !== 'object' || stored.data === null) {
+                    return EMPTY_PURCHASE_HISTORY;
+                }
+                const { baskets, open } = stored.data as Partial<PurchaseHistory>;
+                return {
+                    baskets: Array.isArray(baskets) ? baskets.filter(isIdList) : [],
+                    open: isIdList(open) ? open : [],
+                };
+            }),
+            catchError(() => of(EMPTY_PURCHASE_HISTORY)),
+        );
+    }
+
+    savePurchaseHistory(history: PurchaseHistory): void {
+        this.write(
+            this.adapter.setItem(
+                PURCHASE_HISTORY_STORAGE_KEY,
+                JSON.stringify(createEnvelope(history, PURCHASE_HISTORY_SCHEMA_VERSION)),
+            ),
+        );
+    }
+
+    loadCheckoutDraft(): Observable<CheckoutDraft | null> {
+        return this.adapter.getItem('checkout-draft').pipe(
+            map((rawDraft) => (rawDraft ? JSON.parse(rawDraft) : null)),
+            catchError(() => of(null)),
+        );
+    }
+
+    saveCheckoutDraft(draft: CheckoutDraft): void {
+        this.write(this.adapter.setItem('checkout-draft', JSON.stringify(draft)));
+    }
+
+    clearCheckoutDraft(): void {
+        this.write(this.adapter.removeItem('checkout-draft'));
+    }
+
+    private restoreCart(stored: unknown, fromLegacyKeys: boolean): CartSnapshot {
+        if (stored === null) {
+            return EMPTY_CART;
+        }
+        if (!isEnvelope(stored)) {
+            throw new StorageMigrationError('Cart payload is not a storage envelope');
+        }
+        if (stored.version > CART_SCHEMA_VERSION) {
+            this.newerCartStored = true;
+            return EMPTY_CART;
+        }
+
+        const migrated = migrate(stored, this.migrations, CART_SCHEMA_VERSION);
+        const { snapshot, rejected } = sanitizeCart(migrated.data);
+
+        if (rejected.length > 0) {
+            this.quarantine(rejected.map((value) => ({ reason: 'Invalid cart line', value })));
+        }
+
+        if (fromLegacyKeys || stored.version !== migrated.version || rejected.length > 0) {
+            this.saveCart(snapshot);
+            this.write(this.adapter.removeItem(LEGACY_PRODUCTS_KEY));
+            this.write(this.adapter.removeItem(LEGACY_VOUCHERS_KEY));
+        }
+
+        return snapshot;
+    }
+
+    /**
+     * Reads an enveloped list of `{ product, <dateKey> }` entries, keeping
+     * only the entries with a valid product and an ISO date string.
+     */
+    private readProductList<T>(key: string, dateKey: keyof T & string): Observable<T[]> {
+        return this.adapter.getItem(key).pipe(
+            map((raw) => {
+                const stored: unknown = raw ? JSON.parse(raw) : null;
+                if (!isEnvelope(stored) || !Array.isArray(stored.data)) {
+                    return [];
+                }
+                return stored.data.filter((item) =>
+                    isProductItemCart({ product: item?.product, quantity: 1 }) && typeof item[dateKey] === 'string'
+                ) as T[];
+            }),
+            catchError(() => of([])),
+        );
+    }
+
+    private writeList<T>(key: string, items: T[], version: number): void {
+        this.write(this.adapter.setItem(key, JSON.stringify(createEnvelope(items, version))));
+    }
+
+    /**
+     * Wraps the keys written before the envelope existed.
+     * Products alone are v1; products next to vouchers already match v2.
+     */
+    private readLegacyCart(): Observable<CartSnapshot> {
+        return forkJoin([
+            this.adapter.getItem(LEGACY_PRODUCTS_KEY),
+            this.adapter.getItem(LEGACY_VOUCHERS_KEY),
+        ]).pipe(
+            switchMap(([rawProducts, rawVouchers]) => {
+                if (rawProducts === null) {
+                    return of(EMPTY_CART);
+                }
+
+                const payload = { [LEGACY_PRODUCTS_KEY]: rawProducts, [LEGACY_VOUCHERS_KEY]: rawVouchers };
+                const legacyKeys = [LEGACY_PRODUCTS_KEY, LEGACY_VOUCHERS_KEY];
+
+                return this.readCart(payload, () => {
+                    const products = JSON.parse(rawProducts);
+                    return rawVouchers === null
+                        ? { version: 1, savedAt: null, data: products }
+                        : { version: 2, savedAt: null, data: { products, vouchers: JSON.parse(rawVouchers) } };
+                }, legacyKeys);
+            }),
+        );
+    }
+
+    /**
+     * Restores what `parse` reads out of `payload`. When that fails, the raw
+     * payload is quarantined and its `keys` removed, so it is reported once
+     * instead of on every start.
+     */
+    private readCart(payload: unknown, parse: () => unknown, keys: string[]): Observable<CartSnapshot> {
+        return defer(() => of(this.restoreCart(parse(), !keys.includes(CART_STORAGE_KEY)))).pipe(
+            catchError((error) => {
+                const reason = error instanceof Error ? error.message : String(error);
+                this.quarantine([{ reason, value: payload }]);
+                keys.forEach((key) => this.write(this.adapter.removeItem(key)));
+
+                return of(EMPTY_CART);
+            }),
+        );
+    }
+
+    /**
+     * Appends entries in a single read-modify-write so async backends cannot interleave it.
+     */
+    private quarantine(items: Pick<QuarantineEntry, 'reason' | 'value'>[]): void {
+        this.notifications.warning('Algunos productos guardados en tu carrito no se pudieron recuperar.');
+
+        const quarantinedAt = new Date().toISOString();
+
+        this.write(
+            this.loadQuarantine().pipe(
+                switchMap((entries) => {
+                    const next = [
+                        ...entries,
+                        ...items.map((item) => ({ quarantinedAt, ...item })),
+                    ].slice(-MAX_QUARANTINE_ENTRIES);
 
-        return of(rawProducts ? JSON.parse(rawProducts) : []);
+                    return this.adapter.setItem(CART_QUARANTINE_KEY, JSON.stringify(next));
+                }),
+            ),
+        );
     }
 
-    saveProducts(products: ProductItemCart[]): void {
-        localStorage.setItem('products', JSON.stringify(products));
+    /**
+     * Fire-and-forget write; a failing backend must not break the cart,
+     * but the user should know their changes may not survive a reload.
+     */
+    private write(operation: Observable<unknown>): void {
+        operation.subscribe({
+            error: () => this.notifications.error('No pudimos guardar tus cambios en este dispositivo.'),
+        });
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,47 @@
+import { isPlatformBrowser } from '@angular/common';
+import {
+  APP_BOOTSTRAP_LISTENER,
+  ApplicationRef,
+  createComponent,
+  DOCUMENT,
+  EnvironmentInjector,
+  EnvironmentProviders,
+  inject,
+  makeEnvironmentProviders,
+  PLATFORM_ID,
+} from '@angular/core';
+import { DevtoolsConfig } from '../interfaces/devtools.interface';
+import { DevtoolsPanel } from '../ui/devtools-panel/devtools-panel';
+import { DEFAULT_DEVTOOLS_CONFIG, DEVTOOLS_CONFIG, StoreDevtools } from './store-devtools.service';
+import { STORE_DEVTOOLS } from './tracked-slice';
+
+/**
+ * Turns the store devtools on and mounts their panel once the app has
+ * bootstrapped in the browser. Only referenced from `environment.development.ts`.
+ */
+export function provideStoreDevtools(config: Partial<DevtoolsConfig> = {}): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    StoreDevtools,
+    { provide: STORE_DEVTOOLS, useExisting: StoreDevtools },
+    { provide: DEVTOOLS_CONFIG, useValue: { ...DEFAULT_DEVTOOLS_CONFIG, ...config } },
+    {
+      provide: APP_BOOTSTRAP_LISTENER,
+      multi: true,
+      useFactory: () => {
+        const appRef = inject(ApplicationRef);
+        const environmentInjector = inject(EnvironmentInjector);
+        const document = inject(DOCUMENT);
+        const isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+
+        return () => {
+          if (!isBrowser) {
+            return;
+          }
+          const host = document.body.appendChild(document.createElement('app-devtools-panel'));
+          const panel = createComponent(DevtoolsPanel, { environmentInjector, hostElement: host });
+          appRef.attachView(panel.hostView);
+        };
+      },
+    },
+  ]);
+}
@@ -0,0 +1,104 @@
+import { effect } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { map, Observable, of } from 'rxjs';
+import { DEVTOOLS_CONFIG, DEFAULT_DEVTOOLS_CONFIG, StoreDevtools } from './store-devtools.service';
+import { STORE_DEVTOOLS, trackedSlice } from './tracked-slice';
+
+describe('StoreDevtools', () => {
+  let devtools: StoreDevtools;
+
+  const createCounter = () =>
+    TestBed.runInInjectionContext(() =>
+      trackedSlice('counter')({
+        initialState: { count: 0, label: '' },
+        sources: [of({ label: 'loaded' })],
+        actionSources: {
+          add: (state, $: Observable<number>) =>
+            $.pipe(map((amount) => ({ count: state().count + amount }))),
+          rename: (_state, $: Observable<string>) => $.pipe(map((label) => ({ label }))),
+        },
+      }),
+    );
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        StoreDevtools,
+        { provide: STORE_DEVTOOLS, useExisting: StoreDevtools },
+        { provide: DEVTOOLS_CONFIG, useValue: { ...DEFAULT_DEVTOOLS_CONFIG, maxEntries: 3 } },
+      ],
+    });
+    devtools = TestBed.inject(StoreDevtools);
+  });
+
+  it('should record sources and actions with the state before and after', () => {
+    const counter = createCounter();
+    counter.add(2);
+
+    const [source, action] = devtools.entries();
+    expect(source).toEqual(
+      jasmine.objectContaining({ store: 'counter', kind: 'source', name: 'source #1' }),
+    );
+    expect(action).toEqual(
+      jasmine.objectContaining({
+        kind: 'action',
+        name: 'add',
+        payload: 2,
+        before: { count: 0, label: 'loaded' },
+        after: { count: 2, label: 'loaded' },
+      }),
+    );
+    expect(devtools.states()).toEqual({ counter: { count: 2, label: 'loaded' } });
+  });
+
+  it('should not make an effect that fires an action depend on the store', () => {
+    const counter = createCounter();
+    let runs = 0;
+    TestBed.runInInjectionContext(() =>
+      effect(() => {
+        runs++;
+        counter.rename('from effect');
+      }),
+    );
+
+    TestBed.tick();
+    TestBed.tick();
+
+    expect(runs).toBe(1);
+    expect(devtools.entries().at(-1)?.name).toBe('rename');
+  });
+
+  it('should only keep the latest entries', () => {
+    const counter = createCounter();
+    counter.add(1);
+    counter.add(1);
+    counter.add(1);
+
+    expect(devtools.entries().map(({ after }) => (after as { count: number }).count)).toEqual([
+      1, 2, 3,
+    ]);
+  });
+
+  it('should travel back to the state right after an entry', () => {
+    const counter = createCounter();
+    counter.add(1);
+    counter.add(5);
+
+    devtools.jumpTo(devtools.entries()[1]);
+
+    expect(counter()).toEqual({ count: 1, label: 'loaded' });
+    expect(devtools.entries().length).toBe(3);
+  });
+
+  it('should import exported states and reject anything else', () => {
+    const counter = createCounter();
+    counter.add(4);
+    const exported = devtools.exportState();
+    counter.add(1);
+
+    devtools.importState(exported);
+
+    expect(counter.count()).toBe(4);
+    expect(() => devtools.importState('[]')).toThrowError(/object of store states/);
+  });
+});
@@ -0,0 +1,249 @@
+import { DOCUMENT, inject, Injectable, InjectionToken, signal, untracked } from '@angular/core';
+import { filter, isObservable, map, Observable, Subject, tap } from 'rxjs';
+import {
+  DevtoolsConfig,
+  DevtoolsEntry,
+  DevtoolsEntryKind,
+  StoreInstrumentation,
+} from '../interfaces/devtools.interface';
+
+export const DEFAULT_DEVTOOLS_CONFIG: DevtoolsConfig = {
+  maxEntries: 200,
+  hotkey: 'ctrl+shift+s',
+  reduxDevtools: true,
+};
+
+export const DEVTOOLS_CONFIG = new InjectionToken<DevtoolsConfig>('DEVTOOLS_CONFIG', {
+  providedIn: 'root',
+  factory: () => DEFAULT_DEVTOOLS_CONFIG,
+});
+
+/** The parts of the Redux DevTools extension protocol we use. */
+interface ReduxDevtoolsMessage {
+  type: string;
+  state?: string;
+  payload?: {
+    type: string;
+    nextLiftedState?: { computedStates: { state: Record<string, unknown> }[] };
+  };
+}
+
+interface ReduxDevtoolsConnection {
+  init(state: unknown): void;
+  send(action: { type: string; payload?: unknown }, state: unknown): void;
+  subscribe(listener: (message: ReduxDevtoolsMessage) => void): unknown;
+}
+
+interface ReduxDevtoolsExtension {
+  connect(options: { name: string; maxAge?: number }): ReduxDevtoolsConnection;
+}
+
+type SliceSource = Observable<unknown> | ((state: () => unknown) => Observable<unknown>);
+type SliceActionSource = (
+  state: () => unknown,
+  action$: Observable<unknown>,
+) => Observable<unknown>;
+
+interface SliceConfig {
+  initialState: unknown;
+  sources?: SliceSource[];
+  actionSources?: Record<string, SliceActionSource | Subject<unknown>>;
+}
+
+/** signalSlice merges object emissions into the state, anything else replaces it. */
+function applyChange(state: unknown, change: unknown): unknown {
+  return typeof state === 'object' &&
+    state !== null &&
+    typeof change === 'object' &&
+    change !== null
+    ? { ...state, ...change }
+    : change;
+}
+
+/**
+ * 🛠️ STORE DEVTOOLS (development builds only)
+ * Records every action and source emission of the stores created with
+ * `trackedSlice`/`createEntityStore`, with the state before and after.
+ * Time travel swaps whole store states back in through an extra source,
+ * so the stores themselves need no setter.
+ */
+@Injectable()
+export class StoreDevtools implements StoreInstrumentation {
+  private config = inject(DEVTOOLS_CONFIG);
+  private window = inject(DOCUMENT).defaultView;
+
+  private nextId = 1;
+  private initialStates: Record<string, unknown> = {};
+  private jumps$ = new Subject<{ store: string; state: unknown }>();
+  private redux = this.connectRedux();
+
+  private _entries = signal<DevtoolsEntry[]>([]);
+  private _states = signal<Record<string, unknown>>({});
+
+  /** Recorded entries, oldest first. */
+  entries = this._entries.asReadonly();
+  /** Current state of every tracked store, by store name. */
+  states = this._states.asReadonly();
+  /** Whether the in-app panel is shown. */
+  open = signal(false);
+
+  instrument<TConfig extends object>(store: string, config: TConfig): TConfig {
+    const { initialState, sources = [], actionSources = {} } = config as TConfig & SliceConfig;
+
+    this.initialStates[store] = initialState;
+    this._states.update((states) => ({ ...states, [store]: initialState }));
+    this.redux?.init(untracked(this._states));
+
+    return {
+      ...config,
+      sources: [
+        ...sources.map(
+          (source, index) => (state: () => unknown) =>
+            (isObservable(source) ? source : source(state)).pipe(
+              tap((change) =>
+                untracked(() =>
+                  this.record(store, 'source', `source #${index + 1}`, undefined, state(), change),
+                ),
+              ),
+            ),
+        ),
+        this.jumps$.pipe(
+          filter((jump) => jump.store === store),
+          map((jump) => jump.state),
+        ),
+      ],
+      actionSources: Object.fromEntries(
+        Object.entries(actionSources).map(([name, actionSource]) => {
+          if (isObservable(actionSource)) {
+            return [name, actionSource];
+          }
+          const tracked: SliceActionSource = (state, action$) => {
+            let payload: unknown;
+            return actionSource(state, action$.pipe(tap((value) => (payload = value)))).pipe(
+              tap((change) =>
+                untracked(() => this.record(store, 'action', name, payload, state(), change)),
+              ),
+            );
+          };
+          return [name, tracked];
+        }),
+      ),
+    };
+  }
+
+  toggle(): void {
+    this.open.update((open) => !open);
+  }
+
+  clear(): void {
+    this._entries.set([]);
+  }
+
+  /**
+   * Puts every store back as it was right after `entry`. Stores without
+   * entries up to that point go back to their initial state.
+   */
+  jumpTo(entry: DevtoolsEntry): void {
+    const states = { ...this.initialStates };
+    for (const recorded of this._entries()) {
+      if (recorded.id > entry.id) {
+        break;
+      }
+      states[recorded.store] = recorded.after;
+    }
+    this.apply(states);
+  }
+
+  exportState(): string {
+    return JSON.stringify(this._states(), null, 2);
+  }
+
+  /**
+   * Loads states produced by `exportState()`. Unknown stores are ignored.
+   * Throws on anything that is not a JSON object.
+   */
+  importState(json: string): void {
+    const states: unknown = JSON.parse(json);
+    if (typeof states !== 'object' || states === null || Array.isArray(states)) {
+      throw new Error('The imported state must be an object of store states');
+    }
+    this.apply(states as Record<string, unknown>);
+  }
+
+  private apply(states: Record<string, unknown>): void {
+    const known = Object.entries(states).filter(([store]) => store in this.initialStates);
+    this._states.update((current) => ({ ...current, ...Object.fromEntries(known) }));
+    known.forEach(([store, state]) => this.jumps$.next({ store, state }));
+  }
+
+  /**
+   * Runs inside the store's own emission, which may be inside an effect:
+   * callers wrap it in `untracked` so recording never adds dependencies.
+   */
+  private record(
+    store: string,
+    kind: DevtoolsEntryKind,
+    name: string,
+    payload: unknown,
+    before: unknown,
+    change: unknown,
+  ): void {
+    const after = applyChange(before, change);
+    const entry: DevtoolsEntry = {
+      id: this.nextId++,
+      store,
+      kind,
+      name,
+      payload,
+      before,
+      after,
+      timestamp: Date.now(),
+    };
+
+    this._entries.update((entries) => [...entries, entry].slice(-this.config.maxEntries));
+    this._states.update((states) => ({ ...states, [store]: after }));
+    this.redux?.send({ type: `[${store}] ${name}`, payload }, this._states());
+  }
+
+  /**
+   * Bridges to the Redux DevTools extension: every entry is sent as an
+   * action, and its jump/import commands are applied to our stores.
+   */
+  private connectRedux(): ReduxDevtoolsConnection | null {
+    const extension = (
+      this.window as { __REDUX_DEVTOOLS_EXTENSION__?: ReduxDevtoolsExtension } | null
+    )?.__REDUX_DEVTOOLS_EXTENSION__;
+
+    if (!this.config.reduxDevtools || !extension) {
+      return null;
+    }
+
+    const connection = extension.connect({ name: 'signal-store', maxAge: this.config.maxEntries });
+    connection.subscribe((message) => {
+      if (message.type !== 'DISPATCH' || !message.payload) {
+        return;
+      }
+      switch (message.payload.type) {
+        case 'JUMP_TO_STATE':
+        case 'JUMP_TO_ACTION':
+          if (message.state) {
+            this.apply(JSON.parse(message.state));
+          }
+          break;
+        case 'IMPORT_STATE': {
+          const computed = message.payload.nextLiftedState?.computedStates ?? [];
+          const last = computed[computed.length - 1];
+          if (last) {
+            this.apply(last.state);
+          }
+          break;
+        }
+        case 'RESET':
+          this.apply(this.initialStates);
+          connection.init(this._states());
+          break;
+      }
+    });
+    return connection;
+  }
+}
@@ -0,0 +1,24 @@
+import { inject, InjectionToken } from '@angular/core';
+import { signalSlice } from 'ngxtension/signal-slice';
+import { StoreInstrumentation } from '../interfaces/devtools.interface';
+
+/**
+ * Set by `provideStoreDevtools()` in development builds only. Nothing else
+ * references the devtools, so production builds leave them out entirely.
+ */
+export const STORE_DEVTOOLS = new InjectionToken<StoreInstrumentation | null>('STORE_DEVTOOLS', {
+  providedIn: 'root',
+  factory: () => null,
+});
+
+/**
+ * `signalSlice` under a store name, reported to the devtools when present:
+ *
+ *   state = trackedSlice('wishlist')({ initialState, sources, actionSources });
+ */
+export function trackedSlice(store: string): typeof signalSlice {
+  return ((config: Parameters<typeof signalSlice>[0]) => {
+    const devtools = inject(STORE_DEVTOOLS);
+    return signalSlice(devtools ? devtools.instrument(store, config) : config);
+  }) as typeof signalSlice;
+}
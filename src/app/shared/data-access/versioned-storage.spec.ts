@@ -0,0 +1,33 @@
+import { migrate, StorageMigrationError } from './versioned-storage';
+
+describe('migrate', () => {
+  const migrations = {
+    1: (data: unknown) => ({ items: data }),
+    2: (data: unknown) => ({ ...(data as object), tags: [] }),
+  };
+
+  it('should run every step up to the target version', () => {
+    const result = migrate({ version: 1, savedAt: null, data: ['a'] }, migrations, 3);
+
+    expect(result.version).toBe(3);
+    expect(result.data).toEqual({ items: ['a'], tags: [] });
+  });
+
+  it('should leave current payloads untouched', () => {
+    const envelope = { version: 3, savedAt: null, data: { items: [] } };
+
+    expect(migrate(envelope, migrations, 3)).toEqual(envelope);
+  });
+
+  it('should refuse payloads from a newer version', () => {
+    expect(() => migrate({ version: 4, savedAt: null, data: {} }, migrations, 3)).toThrowError(
+      StorageMigrationError,
+    );
+  });
+
+  it('should fail when a migration step is missing', () => {
+    expect(() => migrate({ version: 0, savedAt: null, data: {} }, migrations, 3)).toThrowError(
+      StorageMigrationError,
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { MigrationRegistry, StorageEnvelope } from '../interfaces/storage.interface';
+
+export class StorageMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageMigrationError';
+  }
+}
+
+export function createEnvelope<T>(data: T, version: number): StorageEnvelope<T> {
+  return { version, savedAt: new Date().toISOString(), data };
+}
+
+export function isEnvelope(value: unknown): value is StorageEnvelope<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Number.isInteger((value as StorageEnvelope<unknown>).version) &&
+    'data' in value
+  );
+}
+
+/**
+ * Runs every registered migration between the envelope version and `targetVersion`.
+ * Throws a StorageMigrationError when a step is missing or the payload was
+ * written by a newer version of the app.
+ */
+export function migrate(
+  envelope: StorageEnvelope<unknown>,
+  migrations: MigrationRegistry,
+  targetVersion: number,
+): StorageEnvelope<unknown> {
+  if (envelope.version > targetVersion) {
+    throw new StorageMigrationError(
+      `Stored version ${envelope.version} is newer than supported version ${targetVersion}`,
+    );
+  }
+
+  let { version, data } = envelope;
+
+  while (version < targetVersion) {
+    const migration = migrations[version];
+    if (!migration) {
+      throw new StorageMigrationError(`No migration registered from version ${version}`);
+    }
+    data = migration(data);
+    version++;
+  }
+
+  return { ...envelope, version, data };
+}
@@ -0,0 +1,144 @@
+import { ProductItemCart } from '../interfaces/product.interface';
+import { Voucher } from '../interfaces/voucher.interface';
+import { calculateTotals } from './pricing.service';
+import { validateVoucher } from './voucher.service';
+import { productFixture } from '../testing/product.fixture';
+
+const now = new Date('2026-01-15T00:00:00Z');
+
+const catalog: Voucher[] = [
+  { code: 'TEN', type: 'percentage', value: 10, description: '', stackable: false },
+  { code: 'FIVE', type: 'fixed', value: 5, description: '', minSpend: 30, stackable: true },
+  { code: 'SHIP', type: 'free-shipping', value: 0, description: '', stackable: true },
+  {
+    code: 'TECH',
+    type: 'percentage',
+    value: 50,
+    description: '',
+    categories: ['electronics'],
+    stackable: true,
+  },
+  {
+    code: 'OLD',
+    type: 'percentage',
+    value: 20,
+    description: '',
+    expiresAt: '2025-12-31T23:59:59Z',
+    stackable: true,
+  },
+];
+
+function line(id: number, price: number, quantity: number, category = 'jewelery'): ProductItemCart {
+  return { product: productFixture(id, { price, category }), quantity };
+}
+
+function voucher(code: string): Voucher {
+  return catalog.find((candidate) => candidate.code === code)!;
+}
+
+describe('validateVoucher', () => {
+  it('should accept a valid code regardless of case and spacing', () => {
+    const result = validateVoucher(' ten ', catalog, [line(1, 10, 1)], [], now);
+
+    expect(result.valid).toBeTrue();
+  });
+
+  it('should reject unknown, expired and duplicated codes', () => {
+    const items = [line(1, 40, 1)];
+
+    expect(validateVoucher('NOPE', catalog, items, [], now)).toEqual(
+      jasmine.objectContaining({
+        valid: false,
+        error: jasmine.objectContaining({ reason: 'not-found' }),
+      }),
+    );
+    expect(validateVoucher('OLD', catalog, items, [], now)).toEqual(
+      jasmine.objectContaining({
+        valid: false,
+        error: jasmine.objectContaining({ reason: 'expired' }),
+      }),
+    );
+    expect(validateVoucher('FIVE', catalog, items, [voucher('FIVE')], now)).toEqual(
+      jasmine.objectContaining({
+        valid: false,
+        error: jasmine.objectContaining({ reason: 'already-applied' }),
+      }),
+    );
+  });
+
+  it('should enforce minimum spend and category restrictions', () => {
+    const items = [line(1, 10, 1)];
+
+    expect(validateVoucher('FIVE', catalog, items, [], now)).toEqual(
+      jasmine.objectContaining({
+        valid: false,
+        error: jasmine.objectContaining({ reason: 'min-spend' }),
+      }),
+    );
+    expect(validateVoucher('TECH', catalog, items, [], now)).toEqual(
+      jasmine.objectContaining({
+        valid: false,
+        error: jasmine.objectContaining({ reason: 'category' }),
+      }),
+    );
+  });
+
+  it('should not combine non-stackable vouchers', () => {
+    const items = [line(1, 40, 1)];
+
+    expect(validateVoucher('TEN', catalog, items, [voucher('SHIP')], now)).toEqual(
+      jasmine.objectContaining({
+        valid: false,
+        error: jasmine.objectContaining({ reason: 'not-stackable' }),
+      }),
+    );
+    expect(validateVoucher('SHIP', catalog, items, [voucher('TEN')], now)).toEqual(
+      jasmine.objectContaining({
+        valid: false,
+        error: jasmine.objectContaining({ reason: 'not-stackable' }),
+      }),
+    );
+    expect(validateVoucher('SHIP', catalog, items, [voucher('FIVE')], now).valid).toBeTrue();
+  });
+});
+
+describe('calculateTotals with vouchers', () => {
+  const rules = {
+    taxRate: 0,
+    shippingFlatRate: 5,
+    freeShippingThreshold: 100,
+    expressShippingRate: 20,
+    discounts: [],
+  };
+
+  it('should apply percentage, fixed and free-shipping vouchers', () => {
+    const totals = calculateTotals(
+      [line(1, 40, 1)],
+      rules,
+      [voucher('FIVE'), voucher('SHIP')],
+      now,
+    );
+
+    expect(totals.voucherDiscount).toBe(5);
+    expect(totals.shipping).toBe(0);
+    expect(totals.total).toBe(35);
+  });
+
+  it('should only discount the restricted categories', () => {
+    const totals = calculateTotals(
+      [line(1, 40, 1, 'electronics'), line(2, 60, 1)],
+      rules,
+      [voucher('TECH')],
+      now,
+    );
+
+    expect(totals.voucherDiscount).toBe(20);
+  });
+
+  it('should keep a voucher that no longer applies without discounting', () => {
+    const totals = calculateTotals([line(1, 10, 1)], rules, [voucher('FIVE')], now);
+
+    expect(totals.voucherDiscount).toBe(0);
+    expect(totals.vouchers[0].error?.reason).toBe('min-spend');
+  });
+});
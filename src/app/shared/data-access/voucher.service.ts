@@ -0,0 +1,166 @@
+import { inject, Injectable, InjectionToken } from '@angular/core';
+import { ProductItemCart } from '../interfaces/product.interface';
+import { Voucher, VoucherError, VoucherValidation } from '../interfaces/voucher.interface';
+
+export const DEFAULT_VOUCHERS: Voucher[] = [
+  {
+    code: 'BIENVENIDO10',
+    type: 'percentage',
+    value: 10,
+    description: '10% de descuento en tu compra',
+    stackable: false,
+  },
+  {
+    code: 'AHORRA5',
+    type: 'fixed',
+    value: 5,
+    description: '$5 de descuento en compras sobre $30',
+    minSpend: 30,
+    stackable: true,
+  },
+  {
+    code: 'ENVIOGRATIS',
+    type: 'free-shipping',
+    value: 0,
+    description: 'Envío gratis sin mínimo de compra',
+    stackable: true,
+  },
+  {
+    code: 'TECH15',
+    type: 'percentage',
+    value: 15,
+    description: '15% en electrónica',
+    categories: ['electronics'],
+    expiresAt: '2027-12-31T23:59:59Z',
+    stackable: false,
+  },
+  {
+    code: 'GIFT25',
+    type: 'fixed',
+    value: 25,
+    description: 'Gift card de $25',
+    stackable: true,
+  },
+  {
+    code: 'VERANO2024',
+    type: 'percentage',
+    value: 20,
+    description: '20% de verano',
+    expiresAt: '2024-03-31T23:59:59Z',
+    stackable: false,
+  },
+];
+
+/**
+ * Vouchers and gift cards that can be redeemed in the cart.
+ */
+export const VOUCHER_CATALOG = new InjectionToken<Voucher[]>('VOUCHER_CATALOG', {
+  providedIn: 'root',
+  factory: () => DEFAULT_VOUCHERS,
+});
+
+export function normalizeVoucherCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function voucherError(code: string, reason: VoucherError['reason'], message: string): VoucherError {
+  return { code, reason, message };
+}
+
+/**
+ * Checks the conditions that depend on the cart contents and the date.
+ * Returns `null` when the voucher can be applied to `items`.
+ */
+export function checkVoucherConditions(
+  voucher: Voucher,
+  items: ProductItemCart[],
+  now: Date,
+): VoucherError | null {
+  if (voucher.expiresAt && new Date(voucher.expiresAt).getTime() < now.getTime()) {
+    return voucherError(voucher.code, 'expired', `El código ${voucher.code} ha expirado`);
+  }
+
+  const subtotal = items.reduce((total, item) => total + item.product.price * item.quantity, 0);
+  if (voucher.minSpend && subtotal < voucher.minSpend) {
+    return voucherError(
+      voucher.code,
+      'min-spend',
+      `El código ${voucher.code} requiere una compra mínima de $${voucher.minSpend}`,
+    );
+  }
+
+  const categories = voucher.categories;
+  if (categories?.length && !items.some((item) => categories.includes(item.product.category))) {
+    return voucherError(
+      voucher.code,
+      'category',
+      `El código ${voucher.code} solo aplica a: ${categories.join(', ')}`,
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Validates a code typed by the user against the catalog, the cart and
+ * the vouchers that are already applied.
+ */
+export function validateVoucher(
+  rawCode: string,
+  catalog: Voucher[],
+  items: ProductItemCart[],
+  applied: Voucher[],
+  now: Date,
+): VoucherValidation {
+  const code = normalizeVoucherCode(rawCode);
+
+  if (!code) {
+    return { valid: false, error: voucherError(code, 'empty', 'Ingresa un código') };
+  }
+
+  const voucher = catalog.find((candidate) => candidate.code === code);
+  if (!voucher) {
+    return { valid: false, error: voucherError(code, 'not-found', `El código ${code} no existe`) };
+  }
+
+  if (applied.some((candidate) => candidate.code === code)) {
+    return {
+      valid: false,
+      error: voucherError(code, 'already-applied', `El código ${code} ya está aplicado`),
+    };
+  }
+
+  if (applied.length > 0 && (!voucher.stackable || applied.some((other) => !other.stackable))) {
+    return {
+      valid: false,
+      error: voucherError(
+        code,
+        'not-stackable',
+        `El código ${code} no se puede combinar con otros códigos`,
+      ),
+    };
+  }
+
+  const error = checkVoucherConditions(voucher, items, now);
+  return error ? { valid: false, error } : { valid: true, voucher };
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class VoucherService {
+  catalog = inject(VOUCHER_CATALOG);
+
+  find(code: string): Voucher | undefined {
+    const normalized = normalizeVoucherCode(code);
+    return this.catalog.find((voucher) => voucher.code === normalized);
+  }
+
+  findAll(codes: string[]): Voucher[] {
+    return codes.map((code) => this.find(code)).filter((voucher): voucher is Voucher => !!voucher);
+  }
+
+  validate(code: string, items: ProductItemCart[], appliedCodes: string[]): VoucherValidation {
+    return validateVoucher(code, this.catalog, items, this.findAll(appliedCodes), new Date());
+  }
+}
@@ -0,0 +1,57 @@
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom } from 'rxjs';
+import { CartStateService } from './cart-state.service';
+import { MemoryStorageAdapter, provideCartStorage } from './storage-adapters';
+import { StorageService } from './storage.service';
+import { WishlistStateService } from './wishlist-state.service';
+import { productFixture } from '../testing/product.fixture';
+
+describe('WishlistStateService', () => {
+  let wishlist: WishlistStateService;
+  let cart: CartStateService;
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({
+      providers: [provideCartStorage(new MemoryStorageAdapter())],
+    });
+    wishlist = TestBed.inject(WishlistStateService);
+    cart = TestBed.inject(CartStateService);
+    await Promise.resolve();
+  });
+
+  it('should toggle products in and out', () => {
+    wishlist.state.toggle(productFixture(1));
+    wishlist.state.toggle(productFixture(2));
+    wishlist.state.toggle(productFixture(1));
+
+    expect(wishlist.state.items().map(({ product }) => product.id)).toEqual([2]);
+    expect(wishlist.count()).toBe(1);
+  });
+
+  it('should not add the same product twice', () => {
+    wishlist.state.add(productFixture(1));
+    wishlist.state.add(productFixture(1));
+
+    expect(wishlist.count()).toBe(1);
+  });
+
+  it('should move products between the wishlist and the cart', () => {
+    wishlist.state.add(productFixture(1));
+
+    wishlist.moveToCart(productFixture(1));
+    expect(wishlist.has(1)).toBeFalse();
+    expect(cart.state.products().map((item) => item.product.id)).toEqual([1]);
+
+    wishlist.moveFromCart(cart.state.products()[0]);
+    expect(wishlist.has(1)).toBeTrue();
+    expect(cart.state.products()).toEqual([]);
+  });
+
+  it('should persist the list', async () => {
+    wishlist.state.add(productFixture(3));
+    TestBed.tick();
+
+    const stored = await firstValueFrom(TestBed.inject(StorageService).loadWishlist());
+    expect(stored.map(({ product }) => product.id)).toEqual([3]);
+  });
+});
@@ -0,0 +1,114 @@
+import { computed, inject, Injectable, Signal } from "@angular/core";
+import { trackedSlice } from "./tracked-slice";
+import { map, Observable } from "rxjs";
+import { Product, ProductItemCart } from "../interfaces/product.interface";
+import { WishlistItem } from "../interfaces/wishlist.interface";
+import { CartStateService } from "./cart-state.service";
+import { StorageService } from "./storage.service";
+
+/**
+ * 📊 Wishlist state
+ *
+ * @property {WishlistItem[]} items - Saved products, most recent first
+ * @property {boolean} loaded - Flag to track if data has been loaded from storage
+ */
+interface State {
+    items: WishlistItem[];
+    loaded: boolean;
+}
+
+/**
+ * ❤️ WISHLIST STATE SERVICE
+ * Same shape as CartStateService: a signalSlice loaded from storage, changed
+ * through action sources and persisted by an effect.
+ */
+@Injectable({
+    providedIn: 'root',
+})
+export class WishlistStateService {
+    private _storageService = inject(StorageService);
+    private _cartState = inject(CartStateService);
+
+    private initialState: State = {
+        items: [],
+        loaded: false,
+    };
+
+    loadItems$ = this._storageService
+        .loadWishlist()
+        .pipe(map((items) => ({ items, loaded: true })));
+
+    state = trackedSlice('wishlist')({
+        initialState: this.initialState,
+        sources: [this.loadItems$],
+        actionSources: {
+            add: (state, action$: Observable<Product>) =>
+                action$.pipe(map((product) => this.add(state, product))),
+            remove: (state, action$: Observable<number>) =>
+                action$.pipe(map((id) => this.remove(state, id))),
+            toggle: (state, action$: Observable<Product>) =>
+                action$.pipe(
+                    map((product) =>
+                        this.contains(state, product.id) ? this.remove(state, product.id) : this.add(state, product)
+                    )
+                ),
+            clear: (_state, action$: Observable<void>) =>
+                action$.pipe(map(() => ({ items: [] }))),
+        },
+        effects: (state) => ({
+            /**
+             * 💾 Persist every change once the stored list has been loaded
+             */
+            saveItems: () => {
+                if (state.loaded()) {
+                    this._storageService.saveWishlist(state.items());
+                }
+            },
+        }),
+    });
+
+    /** 🔢 Number of saved products, for the header badge */
+    count = computed(() => this.state.items().length);
+
+    /** 🔍 Ids of saved products, for O(1) "is this a favorite?" checks */
+    ids = computed(() => new Set(this.state.items().map(({ product }) => product.id)));
+
+    has(id: number): boolean {
+        return this.ids().has(id);
+    }
+
+    /**
+     * 🛒 Wishlist → cart
+     */
+    moveToCart(product: Product): void {
+        this._cartState.state.add({ product, quantity: 1 });
+        this.state.remove(product.id);
+    }
+
+    /**
+     * ❤️ Cart → wishlist
+     */
+    moveFromCart(item: ProductItemCart): void {
+        this.state.add(item.product);
+        this._cartState.state.remove(item.product.id);
+    }
+
+    private add(state: Signal<State>, product: Product): Partial<State> {
+        if (this.contains(state, product.id)) {
+            return {};
+        }
+        return {
+            items: [{ product, addedAt: new Date().toISOString() }, ...state().items],
+        };
+    }
+
+    private contains(state: Signal<State>, id: number): boolean {
+        return state().items.some(({ product }) => product.id === id);
+    }
+
+    private remove(state: Signal<State>, id: number): Partial<State> {
+        return {
+            items: state().items.filter(({ product }) => product.id !== id),
+        };
+    }
+}
@@ -0,0 +1,22 @@
+/**
+ * What went wrong with a request, as far as the UI is concerned:
+ * - `not-found`: the resource does not exist (404 or an empty body)
+ * - `network`: the server could not be reached (offline, CORS, timeout)
+ * - `server`: the server answered with a 5xx
+ * - `unknown`: anything else (4xx other than 404, unexpected exceptions)
+ */
+export type ApiErrorKind = 'not-found' | 'network' | 'server' | 'unknown';
+
+export interface ApiError {
+  kind: ApiErrorKind;
+  /** HTTP status, `0` when there was no response at all. */
+  status: number;
+  message: string;
+}
+
+export interface RetryPolicy {
+  /** Extra attempts after the first failure. */
+  maxRetries: number;
+  /** Delay (ms) before the first retry; doubled on every further attempt. */
+  baseDelay: number;
+}
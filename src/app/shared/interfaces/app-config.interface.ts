@@ -0,0 +1,31 @@
+/**
+ * Features that can be switched off per deployment.
+ */
+export interface FeatureFlags {
+  /** "People also bought" sections (fetches the whole catalog). */
+  recommendations: boolean;
+  /** Keep catalog responses on the device and serve them offline. */
+  offlineCatalog: boolean;
+}
+
+export interface AppTimeouts {
+  /** Time (ms) after which a request is treated as a network failure. */
+  request: number;
+}
+
+/**
+ * Settings read at startup from `config.json`, so one build can be
+ * deployed against different APIs.
+ */
+export interface AppConfig {
+  /** Base URL of the store API, without a trailing slash. */
+  apiUrl: string;
+  /**
+   * Public origin of the store, e.g. `https://shop.example.com`, for
+   * canonical and Open Graph URLs. `null` leaves them out of server-rendered
+   * pages, which cannot know it, and takes it from the browser otherwise.
+   */
+  siteUrl: string | null;
+  features: FeatureFlags;
+  timeouts: AppTimeouts;
+}
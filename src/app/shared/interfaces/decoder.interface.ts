@@ -0,0 +1,22 @@
+/**
+ * Something unexpected found while decoding a payload.
+ * `path` locates the value, e.g. `$[3].rating.rate`.
+ */
+export interface DecodeIssue {
+  path: string;
+  message: string;
+  value: unknown;
+}
+
+export type DecodeResult<T> =
+  | { ok: true; value: T; issues: DecodeIssue[] }
+  | { ok: false; issues: DecodeIssue[] };
+
+/**
+ * Turns an untrusted value into a `T`. Recoverable problems (a defaulted
+ * field, a dropped list item) are returned as issues next to the value.
+ */
+export type Decoder<T> = (input: unknown, path: string) => DecodeResult<T>;
+
+/** Receives the issues of every decoded payload, tagged with where it came from. */
+export type DecodeReporter = (source: string, issues: DecodeIssue[]) => void;
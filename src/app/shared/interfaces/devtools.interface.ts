@@ -0,0 +1,35 @@
+/**
+ * - `action`: emitted by an action source, with the payload that triggered it
+ * - `source`: emitted by a source (storage, sync, requests...)
+ */
+export type DevtoolsEntryKind = 'action' | 'source';
+
+export interface DevtoolsEntry {
+  id: number;
+  store: string;
+  kind: DevtoolsEntryKind;
+  /** Action name, or `source #n` for sources. */
+  name: string;
+  /** Last payload of the action (also for its later async emissions). */
+  payload: unknown;
+  before: unknown;
+  after: unknown;
+  timestamp: number;
+}
+
+export interface DevtoolsConfig {
+  /** Oldest entries are dropped past this point. */
+  maxEntries: number;
+  /** Toggles the panel, e.g. `ctrl+shift+s`. */
+  hotkey: string;
+  /** Connect to the Redux DevTools extension when it is installed. */
+  reduxDevtools: boolean;
+}
+
+/**
+ * What `trackedSlice` needs from the devtools: a chance to wrap the
+ * `signalSlice` config before the slice is created.
+ */
+export interface StoreInstrumentation {
+  instrument<TConfig extends object>(store: string, config: TConfig): TConfig;
+}
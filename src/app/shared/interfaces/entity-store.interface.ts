@@ -0,0 +1,24 @@
+import { ApiError } from './api-error.interface';
+
+export type EntityId = string | number;
+
+/**
+ * Where the last request of a store stands. Only the `error` case carries
+ * a payload, so a stale error can never sit next to a success.
+ */
+export type RemoteData =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  | { status: 'success' }
+  | { status: 'error'; error: ApiError };
+
+export type RemoteStatus = RemoteData['status'];
+
+/**
+ * Entities normalized by id: `ids` keeps the order, `entities` the data.
+ */
+export interface EntityState<T, Id extends EntityId> {
+  ids: Id[];
+  entities: Record<Id, T>;
+  request: RemoteData;
+}
@@ -0,0 +1,20 @@
+import { HttpResponse } from '@angular/common/http';
+
+/**
+ * Caching policy for the GET requests whose URL matches `match`.
+ */
+export interface HttpCacheRule {
+  match: RegExp;
+  /** How long (ms) a response is served without asking the server again. */
+  ttl: number;
+  /**
+   * Extra time (ms) after `ttl` during which the stale response is still
+   * served immediately while a fresh one is fetched in the background.
+   */
+  staleWhileRevalidate: number;
+}
+
+export interface HttpCacheEntry {
+  response: HttpResponse<unknown>;
+  storedAt: number;
+}
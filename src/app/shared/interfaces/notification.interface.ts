@@ -0,0 +1,37 @@
+export type NotificationVariant = 'success' | 'info' | 'warning' | 'error';
+
+/**
+ * Button shown inside a toast. Either navigates to `link` or calls `run`;
+ * the toast is dismissed afterwards.
+ */
+export interface NotificationAction {
+  label: string;
+  link?: string;
+  run?: () => void;
+}
+
+export interface NotificationOptions {
+  title?: string;
+  actions?: NotificationAction[];
+  /** Time (ms) on screen; `null` keeps the toast until dismissed. */
+  duration?: number | null;
+}
+
+export interface Notification {
+  id: number;
+  variant: NotificationVariant;
+  message: string;
+  title: string | null;
+  actions: NotificationAction[];
+  duration: number | null;
+  paused: boolean;
+}
+
+export interface NotificationConfig {
+  /** Default time (ms) on screen for every variant but errors. */
+  duration: number;
+  /** Default time (ms) on screen for errors, which take longer to read. */
+  errorDuration: number;
+  /** Oldest toasts are dropped past this count. */
+  maxVisible: number;
+}
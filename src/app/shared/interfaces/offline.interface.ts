@@ -0,0 +1,32 @@
+import { Observable } from 'rxjs';
+
+/**
+ * A catalog response kept on the device to be served while offline.
+ */
+export interface PersistedResponse {
+  url: string;
+  body: unknown;
+  savedAt: string;
+}
+
+/**
+ * A server-bound operation that could not be sent and waits for connectivity.
+ */
+export interface QueuedOperation<T = unknown> {
+  id: string;
+  type: string;
+  payload: T;
+  queuedAt: string;
+}
+
+export interface ReplayedOperation {
+  operation: QueuedOperation;
+  result: unknown;
+}
+
+/**
+ * Sends the payload of a queued operation of one type to the server.
+ * Payloads are read back from storage, so each handler checks its own;
+ * see `queueHandler`.
+ */
+export type QueueHandler = (payload: unknown) => Observable<unknown>;
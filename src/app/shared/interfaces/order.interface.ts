@@ -0,0 +1,49 @@
+import { CartTotals, ShippingMethod } from './pricing.interface';
+import { ProductItemCart } from './product.interface';
+
+export interface CheckoutContact {
+  email: string;
+  phone: string;
+}
+
+export interface ShippingAddress {
+  fullName: string;
+  street: string;
+  city: string;
+  postalCode: string;
+  country: string;
+}
+
+/**
+ * Checkout progress saved between visits. Payment details are never part of it.
+ */
+export interface CheckoutDraft {
+  step: number;
+  contact: CheckoutContact;
+  address: ShippingAddress;
+  shippingMethod: ShippingMethod;
+}
+
+export interface OrderRequest {
+  contact: CheckoutContact;
+  address: ShippingAddress;
+  shippingMethod: ShippingMethod;
+  items: ProductItemCart[];
+  vouchers: string[];
+  totals: CartTotals;
+}
+
+export interface OrderLine {
+  productId: number;
+  quantity: number;
+}
+
+/**
+ * Cart created by fakestoreapi's `POST /carts`.
+ */
+export interface OrderConfirmation {
+  id: number;
+  userId: number;
+  date: string;
+  products: OrderLine[];
+}
@@ -0,0 +1,38 @@
+import { VoucherBreakdown } from './voucher.interface';
+
+/**
+ * Percentage discount applied to every cart line that reaches `minQuantity` units.
+ */
+export interface DiscountRule {
+  label: string;
+  minQuantity: number;
+  percent: number;
+}
+
+export type ShippingMethod = 'standard' | 'express' | 'pickup';
+
+export interface PricingRules {
+  /** Tax rate applied to the discounted subtotal, e.g. `0.08` for 8%. */
+  taxRate: number;
+  /** Flat shipping cost charged below the free-shipping threshold. */
+  shippingFlatRate: number;
+  /** Discounted subtotal from which shipping is free. */
+  freeShippingThreshold: number;
+  /** Flat cost of express delivery; it is never free. */
+  expressShippingRate: number;
+  discounts: DiscountRule[];
+}
+
+export interface CartTotals {
+  subtotal: number;
+  /** Volume discounts from the pricing rules. */
+  discount: number;
+  /** Sum of every voucher that currently applies. */
+  voucherDiscount: number;
+  vouchers: VoucherBreakdown[];
+  shipping: number;
+  tax: number;
+  total: number;
+  /** What is still missing to reach free shipping; `0` once it applies. */
+  amountToFreeShipping: number;
+}
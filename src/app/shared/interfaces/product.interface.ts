@@ -13,3 +13,39 @@ export interface ProductItemCart {
   product: Product;
   quantity: number;
 }
+
+export type PaginationMode = 'pages' | 'infinite';
+
+export interface PageRequest {
+  offset: number;
+  limit: number;
+}
+
+export interface ProductPage {
+  items: Product[];
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+export type ProductSort = 'relevance' | 'price-asc' | 'price-desc' | 'rating' | 'title';
+
+export interface ProductFilters {
+  query: string;
+  category: string | null;
+  minPrice: number | null;
+  maxPrice: number | null;
+  minRating: number | null;
+  sort: ProductSort;
+}
+
+export interface FilterChip {
+  key: keyof ProductFilters;
+  label: string;
+}
+
+/** What the product list shows, as read from the URL */
+export interface ProductListQuery {
+  page: number;
+  filters: ProductFilters;
+}
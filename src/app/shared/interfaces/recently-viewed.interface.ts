@@ -0,0 +1,7 @@
+import { Product } from './product.interface';
+
+export interface RecentlyViewedItem {
+  product: Product;
+  /** ISO date of the latest visit to the product page. */
+  viewedAt: string;
+}
@@ -0,0 +1,22 @@
+/**
+ * Product ids bought or kept together, learned on this device only.
+ */
+export interface PurchaseHistory {
+  /** Closed baskets: submitted orders and carts that were emptied. */
+  baskets: number[][];
+  /** Every product that went through the current cart. */
+  open: number[];
+}
+
+/** How many times each pair of products shared a basket. */
+export type CoOccurrence = Record<number, Record<number, number>>;
+
+/**
+ * Relative weight of each signal in a recommendation score.
+ */
+export interface RecommendationWeights {
+  category: number;
+  price: number;
+  rating: number;
+  coOccurrence: number;
+}
@@ -0,0 +1,22 @@
+export type JsonLd = Record<string, unknown>;
+
+/** What a page tells search engines and link previews about itself. */
+export interface PageMeta {
+  /** Page title, without the site name. */
+  title: string;
+  description: string;
+  /** Absolute URL of the preview image. */
+  image?: string;
+  /** Open Graph type; `website` unless stated otherwise. */
+  type?: 'website' | 'product';
+  /** schema.org structured data, emitted as a JSON-LD script. */
+  jsonLd?: JsonLd;
+}
+
+export interface SeoConfig {
+  siteName: string;
+  /** Used by routes that do not describe themselves. */
+  description: string;
+  /** ISO 4217 code the prices are in. */
+  currency: string;
+}
@@ -0,0 +1,59 @@
+import { Observable } from 'rxjs';
+import { ProductItemCart } from './product.interface';
+
+/**
+ * Wrapper written around every versioned payload in storage.
+ */
+export interface StorageEnvelope<T> {
+  version: number;
+  /** ISO date of the last write; `null` for data read from legacy keys. */
+  savedAt: string | null;
+  data: T;
+}
+
+/**
+ * Upgrades the `data` of an envelope from one version to the next.
+ */
+export type Migration = (data: unknown) => unknown;
+
+/**
+ * Migrations keyed by the version they upgrade *from*.
+ */
+export type MigrationRegistry = Record<number, Migration>;
+
+/**
+ * Last modification time (ms) of each part of the cart, used to merge
+ * changes coming from other tabs. Removed lines keep their entry as a tombstone.
+ */
+export interface CartClock {
+  lines: Record<number, number>;
+  vouchers: number;
+}
+
+export interface CartSnapshot {
+  products: ProductItemCart[];
+  vouchers: string[];
+  clock: CartClock;
+}
+
+/**
+ * Payload that could not be restored, kept aside for debugging instead of being lost.
+ */
+export interface QuarantineEntry {
+  quarantinedAt: string;
+  reason: string;
+  value: unknown;
+}
+
+/**
+ * Key/value backend used by StorageService. Every operation is an Observable
+ * so synchronous (Web Storage, memory) and asynchronous (IndexedDB) backends
+ * can be swapped without touching the consumers.
+ */
+export interface StorageAdapter {
+  getItem(key: string): Observable<string | null>;
+  setItem(key: string, value: string): Observable<void>;
+  removeItem(key: string): Observable<void>;
+}
+
+export type CartStorageBackend = 'local' | 'session' | 'indexeddb' | 'memory';
@@ -0,0 +1,46 @@
+export type VoucherType = 'percentage' | 'fixed' | 'free-shipping';
+
+export interface Voucher {
+  code: string;
+  type: VoucherType;
+  /** Percent (0-100) for `percentage`, amount for `fixed`; ignored for `free-shipping`. */
+  value: number;
+  description: string;
+  /** ISO date; the voucher is no longer valid after this moment. */
+  expiresAt?: string;
+  /** Minimum cart subtotal (before discounts) required to redeem it. */
+  minSpend?: number;
+  /** Restricts the discount to products of these categories. */
+  categories?: string[];
+  /** Whether it can be combined with other vouchers. */
+  stackable: boolean;
+}
+
+export type VoucherErrorReason =
+  | 'empty'
+  | 'not-found'
+  | 'expired'
+  | 'min-spend'
+  | 'category'
+  | 'already-applied'
+  | 'not-stackable';
+
+export interface VoucherError {
+  code: string;
+  reason: VoucherErrorReason;
+  message: string;
+}
+
+export type VoucherValidation =
+  | { valid: true; voucher: Voucher }
+  | { valid: false; error: VoucherError };
+
+/**
+ * Effect of an applied voucher on the current cart.
+ * `error` is set when the cart no longer meets its conditions.
+ */
+export interface VoucherBreakdown {
+  voucher: Voucher;
+  discount: number;
+  error: VoucherError | null;
+}
@@ -0,0 +1,7 @@
+import { Product } from './product.interface';
+
+export interface WishlistItem {
+  product: Product;
+  /** ISO date the product was saved. */
+  addedAt: string;
+}
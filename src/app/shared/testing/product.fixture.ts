@@ -0,0 +1,15 @@
+import { Product } from '../interfaces/product.interface';
+
+/** A valid product for specs; override only what the spec is about. */
+export function productFixture(id: number, overrides: Partial<Product> = {}): Product {
+  return {
+    id,
+    title: `Product ${id}`,
+    price: 10,
+    description: '',
+    category: 'electronics',
+    image: '',
+    rating: { rate: 4, count: 1 },
+    ...overrides,
+  };
+}
@@ -0,0 +1,38 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { StoreDevtools } from '../../data-access/store-devtools.service';
+
+import { DevtoolsPanel, matchesHotkey } from './devtools-panel';
+
+describe('DevtoolsPanel', () => {
+  let component: DevtoolsPanel;
+  let fixture: ComponentFixture<DevtoolsPanel>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [DevtoolsPanel],
+      providers: [StoreDevtools],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(DevtoolsPanel);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
+
+describe('matchesHotkey', () => {
+  const keydown = (init: KeyboardEventInit) => new KeyboardEvent('keydown', init);
+
+  it('should match the key with exactly the given modifiers', () => {
+    expect(
+      matchesHotkey(keydown({ key: 'S', ctrlKey: true, shiftKey: true }), 'ctrl+shift+s'),
+    ).toBeTrue();
+    expect(matchesHotkey(keydown({ key: 's', ctrlKey: true }), 'ctrl+shift+s')).toBeFalse();
+    expect(
+      matchesHotkey(keydown({ key: 's', ctrlKey: true, shiftKey: true }), 'ctrl+s'),
+    ).toBeFalse();
+  });
+});
@@ -0,0 +1,74 @@
+import { DatePipe, JsonPipe } from '@angular/common';
+import { Component, inject, signal } from '@angular/core';
+import { DevtoolsEntry } from '../../interfaces/devtools.interface';
+import { DEVTOOLS_CONFIG, StoreDevtools } from '../../data-access/store-devtools.service';
+
+/**
+ * Whether a keydown matches a hotkey such as `ctrl+shift+s`. Modifiers
+ * must match exactly, so `ctrl+s` does not fire on Ctrl+Shift+S.
+ */
+export function matchesHotkey(event: KeyboardEvent, hotkey: string): boolean {
+  const parts = hotkey.toLowerCase().split('+');
+  const key = parts[parts.length - 1];
+
+  return (
+    event.key.toLowerCase() === key &&
+    event.ctrlKey === parts.includes('ctrl') &&
+    event.shiftKey === parts.includes('shift') &&
+    event.altKey === parts.includes('alt') &&
+    event.metaKey === parts.includes('meta')
+  );
+}
+
+/**
+ * In-app view of `StoreDevtools`: the action log, the state before/after
+ * each entry, time travel and state import/export. Development builds
+ * only; `provideStoreDevtools()` mounts it next to the app.
+ */
+@Component({
+  selector: 'app-devtools-panel',
+  imports: [DatePipe, JsonPipe],
+  templateUrl: './devtools-panel.html',
+  styles: ``,
+  host: {
+    '(document:keydown)': 'onKeydown($event)',
+  },
+})
+export class DevtoolsPanel {
+  devtools = inject(StoreDevtools);
+  private hotkey = inject(DEVTOOLS_CONFIG).hotkey;
+
+  selected = signal<DevtoolsEntry | null>(null);
+  transfer = signal('');
+  transferError = signal<string | null>(null);
+
+  onKeydown(event: KeyboardEvent) {
+    if (matchesHotkey(event, this.hotkey)) {
+      event.preventDefault();
+      this.devtools.toggle();
+    }
+  }
+
+  clear() {
+    this.devtools.clear();
+    this.selected.set(null);
+  }
+
+  onTransferInput(event: Event) {
+    this.transfer.set((event.target as HTMLTextAreaElement).value);
+  }
+
+  exportState() {
+    this.transfer.set(this.devtools.exportState());
+    this.transferError.set(null);
+  }
+
+  importState() {
+    try {
+      this.devtools.importState(this.transfer());
+      this.transferError.set(null);
+    } catch (error) {
+      this.transferError.set(error instanceof Error ? error.message : String(error));
+    }
+  }
+}
@@ -1,13 +1,14 @@
-import { Component } from '@angular/core';
-import {RouterLink } from '@angular/router';
+import { Component, inject } from '@angular/core';
+import { CurrencyPipe } from '@angular/common';
+import { PRICING_RULES } from '../../data-access/pricing.service';
 
 @Component({
   selector: 'app-footer',
   standalone: true,
-  imports: [],
+  imports: [CurrencyPipe],
   templateUrl: './footer.html',
   styles: ''
 })
 export class Footer {
-
+  freeShippingThreshold = inject(PRICING_RULES).freeShippingThreshold;
 }
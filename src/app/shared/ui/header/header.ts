@@ -23,9 +23,17 @@
 // ═══════════════════════════════════════════════════════════════════════════════
 // 📦 IMPORTS SECTION
 // ═══════════════════════════════════════════════════════════════════════════════
-import { Component, inject } from '@angular/core';
+import { Component, computed, inject } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { CurrencyPipe, TitleCasePipe } from '@angular/common';
 import { Router, RouterLink, RouterLinkActive } from '@angular/router';
+import { catchError, of } from 'rxjs';
 import { CartStateService } from '../../data-access/cart-state.service';
+import { PricingService } from '../../data-access/pricing.service';
+import { ProductsService } from '../../../data-access/products.service';
+import { ConnectivityService } from '../../data-access/connectivity.service';
+import { OfflineQueueService } from '../../data-access/offline-queue.service';
+import { WishlistStateService } from '../../data-access/wishlist-state.service';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // 🧩 STANDALONE COMPONENT DEFINITION
@@ -48,12 +56,27 @@ import { CartStateService } from '../../data-access/cart-state.service';
 @Component({
   selector: 'app-header',
   standalone: true, // 🎯 Makes this component standalone (no NgModule needed)
-  imports: [RouterLink, RouterLinkActive], // 📥 Only import what we need
+  imports: [RouterLink, RouterLinkActive, CurrencyPipe, TitleCasePipe], // 📥 Only import what we need
   template: `
     <!-- ═══════════════════════════════════════════════════════════════════════ -->
     <!-- 🏠 MAIN HEADER CONTAINER                                                -->
     <!-- ═══════════════════════════════════════════════════════════════════════ -->
     <header class="bg-white shadow-sm border-b">
+
+      <!-- 
+      🎓 LEARNING: Reacting to Connectivity
+      - online() is a signal fed by the browser's online/offline events
+      - The banner appears and disappears without any manual subscription
+      -->
+      @if (!online()) {
+        <div class="bg-yellow-100 text-yellow-900 text-sm text-center px-4 py-2" role="status">
+          Sin conexión: estás viendo el catálogo guardado en este dispositivo.
+          @if (pendingOperations() > 0) {
+            {{ pendingOperations() }} {{ pendingOperations() === 1 ? 'pedido pendiente' : 'pedidos pendientes' }}
+            de envío.
+          }
+        </div>
+      }
       
       <!-- ─────────────────────────────────────────────────────────────────── -->
       <!-- 🧭 NAVIGATION CONTAINER                                             -->
@@ -92,6 +115,19 @@ import { CartStateService } from '../../data-access/cart-state.service';
                  class="text-gray-700 hover:text-blue-600 transition-colors pb-1">
                 Productos
               </a>
+
+              <!-- 
+              🎓 LEARNING: Dynamic Navigation with @for
+              - Categories come from the API, not from hard-coded links
+              - A failed request simply leaves only the "Productos" link
+              -->
+              @for (category of categories(); track category) {
+                <a [routerLink]="['/category', category]"
+                   routerLinkActive="text-blue-600 border-b-2 border-blue-600"
+                   class="text-gray-700 hover:text-blue-600 transition-colors pb-1">
+                  {{ category | titlecase }}
+                </a>
+              }
             </div>
           </div>
           
@@ -99,6 +135,23 @@ import { CartStateService } from '../../data-access/cart-state.service';
           <!-- 🛒 CART & USER ACTIONS                                        -->
           <!-- ───────────────────────────────────────────────────────────── -->
           <div class="flex items-center space-x-4">
+            <!-- ❤️ Wishlist link with its own count badge -->
+            <a routerLink="/wishlist" 
+               routerLinkActive="text-blue-600"
+               aria-label="Favoritos"
+               class="relative text-gray-700 hover:text-blue-600 transition-colors">
+              <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" 
+                   fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" 
+                   stroke-linejoin="round" class="w-6 h-6">
+                <path d="M12.01 6.001C6.5 1 1 8 5.782 13.001L12.011 20l6.23-7C23 8 17.5 1 12.01 6.002Z" />
+              </svg>
+              @if (wishlistCount() > 0) {
+                <span class="absolute -top-2 -right-2 bg-red-500 text-white text-xs rounded-full w-5 h-5 flex items-center justify-center">
+                  {{ wishlistCount() }}
+                </span>
+              }
+            </a>
+
             <!-- 
             🎓 LEARNING: Relative Positioning for Badge
             - relative class enables absolute positioning of child elements
@@ -131,6 +184,15 @@ import { CartStateService } from '../../data-access/cart-state.service';
                 </span>
               }
             </a>
+
+            <!-- 
+            🎓 LEARNING: Shared Derived State
+            - cartTotal() comes from PricingService, the same source the cart page uses
+            - The pipe formats the number, the service owns the rounding
+            -->
+            @if (cartCount() > 0) {
+              <span class="text-sm font-medium text-gray-700">{{ cartTotal() | currency }}</span>
+            }
           </div>
         </div>
       </nav>
@@ -166,6 +228,11 @@ export class Header {
    * - Cleaner component code
    */
   private cartService = inject(CartStateService);
+  private pricingService = inject(PricingService);
+  private productsService = inject(ProductsService);
+  private connectivity = inject(ConnectivityService);
+  private offlineQueue = inject(OfflineQueueService);
+  private wishlistService = inject(WishlistStateService);
   
   // ───────────────────────────────────────────────────────────────────────────
   // 🔄 REACTIVE PROPERTIES
@@ -186,6 +253,27 @@ export class Header {
    * - Cleaner template syntax
    */
   cartCount = this.cartService.count;
+
+  /**
+   * 🎓 LEARNING: Reusing Computed Signals Across Components
+   * 
+   * The grand total is computed once in PricingService:
+   * - Header, cart and checkout read the same signal
+   * - No duplicated price math in templates
+   */
+  cartTotal = this.pricingService.total;
+  wishlistCount = this.wishlistService.count;
+  online = this.connectivity.online;
+  pendingOperations = computed(() => this.offlineQueue.pending().length);
+
+  /**
+   * 🎓 LEARNING: toSignal()
+   * Turns the one-shot categories request into a signal for the template
+   */
+  categories = toSignal(
+    this.productsService.getCategories().pipe(catchError(() => of([]))),
+    { initialValue: [] as string[] }
+  );
 }
 
 /*
@@ -199,6 +287,8 @@ export class Header {
 ║   • Responsive design with Tailwind CSS                                     ║
 ║   • Conditional rendering with @if control flow                             ║
 ║   • Computed signals for reactive UI updates                                ║
+║   • Category links rendered from API data                                   ║
+║   • Offline banner driven by a connectivity signal                          ║
 ║   • Modern dependency injection patterns                                    ║
 ║                                                                              ║
 ║ 🎨 UI/UX Patterns:                                                          ║
@@ -0,0 +1,19 @@
+import { Component } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { By } from '@angular/platform-browser';
+import { InfiniteScroll } from './infinite-scroll';
+
+@Component({
+  imports: [InfiniteScroll],
+  template: `<div appInfiniteScroll></div>`,
+})
+class Host {}
+
+describe('InfiniteScroll', () => {
+  it('should create', () => {
+    const fixture = TestBed.createComponent(Host);
+    fixture.detectChanges();
+
+    expect(fixture.debugElement.query(By.directive(InfiniteScroll))).toBeTruthy();
+  });
+});
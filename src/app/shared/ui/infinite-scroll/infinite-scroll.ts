@@ -0,0 +1,45 @@
+import {
+  afterNextRender,
+  DestroyRef,
+  Directive,
+  ElementRef,
+  inject,
+  input,
+  output,
+} from '@angular/core';
+
+/**
+ * Emits `reached` whenever the host element scrolls into view.
+ * Place it on a sentinel after the last item of a list to load more on scroll.
+ */
+@Directive({
+  selector: '[appInfiniteScroll]',
+  standalone: true,
+})
+export class InfiniteScroll {
+  /** How far below the viewport the sentinel counts as visible */
+  rootMargin = input('200px');
+  reached = output<void>();
+
+  constructor() {
+    const element = inject<ElementRef<HTMLElement>>(ElementRef).nativeElement;
+    const destroyRef = inject(DestroyRef);
+
+    afterNextRender(() => {
+      if (typeof IntersectionObserver === 'undefined') {
+        return;
+      }
+
+      const observer = new IntersectionObserver(
+        (entries) => {
+          if (entries.some((entry) => entry.isIntersecting)) {
+            this.reached.emit();
+          }
+        },
+        { rootMargin: this.rootMargin() },
+      );
+      observer.observe(element);
+      destroyRef.onDestroy(() => observer.disconnect());
+    });
+  }
+}
@@ -0,0 +1,31 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { QuantityStepper } from './quantity-stepper';
+
+describe('QuantityStepper', () => {
+  let component: QuantityStepper;
+  let fixture: ComponentFixture<QuantityStepper>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [QuantityStepper],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(QuantityStepper);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('max', 3);
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should keep the value within bounds', () => {
+    component.step(-1);
+    expect(component.value()).toBe(1);
+
+    component.step(5);
+    expect(component.value()).toBe(3);
+  });
+});
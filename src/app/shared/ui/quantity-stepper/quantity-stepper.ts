@@ -0,0 +1,41 @@
+import { Component, input, model } from '@angular/core';
+
+let nextId = 0;
+
+/**
+ * Minus/plus buttons around a number input, kept within `min` and `max`.
+ * Two-way bindable: `[(value)]="quantity"`.
+ */
+@Component({
+  selector: 'app-quantity-stepper',
+  imports: [],
+  templateUrl: './quantity-stepper.html',
+  styles: ``,
+})
+export class QuantityStepper {
+  value = model(1);
+  min = input(1);
+  max = input(99);
+  label = input('Cantidad');
+
+  inputId = `quantity-stepper-${nextId++}`;
+
+  step(delta: number) {
+    this.value.set(this.clamp(this.value() + delta));
+  }
+
+  onInput(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const value = this.clamp(input.valueAsNumber);
+    this.value.set(value);
+    // The signal may not change (e.g. 0 clamped back to 1), so fix the field too
+    input.value = String(value);
+  }
+
+  private clamp(value: number): number {
+    if (!Number.isFinite(value)) {
+      return this.min();
+    }
+    return Math.min(this.max(), Math.max(this.min(), Math.floor(value)));
+  }
+}
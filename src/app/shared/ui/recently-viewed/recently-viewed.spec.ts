@@ -0,0 +1,25 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+
+import { RecentlyViewed } from './recently-viewed';
+
+describe('RecentlyViewed', () => {
+  let component: RecentlyViewed;
+  let fixture: ComponentFixture<RecentlyViewed>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [RecentlyViewed],
+      providers: [provideRouter([])],
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(RecentlyViewed);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
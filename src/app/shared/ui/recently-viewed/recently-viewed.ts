@@ -0,0 +1,29 @@
+import { Component, computed, inject, input } from '@angular/core';
+import { CurrencyPipe } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { RecentlyViewedService } from '../../data-access/recently-viewed.service';
+
+/**
+ * Horizontal strip with the products the user visited last.
+ * Renders nothing while the history is empty.
+ */
+@Component({
+  selector: 'app-recently-viewed',
+  imports: [CurrencyPipe, RouterLink],
+  templateUrl: './recently-viewed.html',
+  styles: ``,
+})
+export class RecentlyViewed {
+  private recentlyViewed = inject(RecentlyViewedService);
+
+  /** Product to leave out, e.g. the one currently on screen. */
+  excludeId = input<number | null>(null);
+
+  products = computed(() =>
+    this.recentlyViewed.products().filter(({ id }) => id !== this.excludeId()),
+  );
+
+  clear() {
+    this.recentlyViewed.state.clear();
+  }
+}
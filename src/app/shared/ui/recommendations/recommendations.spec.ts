@@ -0,0 +1,25 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+
+import { Recommendations } from './recommendations';
+
+describe('Recommendations', () => {
+  let component: Recommendations;
+  let fixture: ComponentFixture<Recommendations>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [Recommendations],
+      providers: [provideRouter([])],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(Recommendations);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('products', []);
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
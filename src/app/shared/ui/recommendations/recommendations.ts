@@ -0,0 +1,24 @@
+import { Component, inject, input, output } from '@angular/core';
+import { CurrencyPipe } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { Product } from '../../interfaces/product.interface';
+import { WishlistStateService } from '../../data-access/wishlist-state.service';
+
+/**
+ * Grid of suggested products with favourite and add-to-cart buttons.
+ * Renders nothing while there is nothing to suggest.
+ */
+@Component({
+  selector: 'app-recommendations',
+  imports: [CurrencyPipe, RouterLink],
+  templateUrl: './recommendations.html',
+  styles: ``,
+})
+export class Recommendations {
+  wishlist = inject(WishlistStateService);
+
+  products = input.required<Product[]>();
+  heading = input('Quienes compraron esto también compraron');
+
+  add = output<Product>();
+}
@@ -0,0 +1,24 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+
+import { ToastOutlet } from './toast-outlet';
+
+describe('ToastOutlet', () => {
+  let component: ToastOutlet;
+  let fixture: ComponentFixture<ToastOutlet>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ToastOutlet],
+      providers: [provideRouter([])],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ToastOutlet);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,28 @@
+import { Component, inject } from '@angular/core';
+import { Router } from '@angular/router';
+import { NotificationService } from '../../data-access/notification.service';
+import { Notification, NotificationAction } from '../../interfaces/notification.interface';
+
+/**
+ * Renders the toasts published to `NotificationService`. Mounted once in `App`.
+ * The container is an always-present polite live region, errors are
+ * announced assertively via `role="alert"`.
+ */
+@Component({
+  selector: 'app-toast-outlet',
+  imports: [],
+  templateUrl: './toast-outlet.html',
+  styles: ``,
+})
+export class ToastOutlet {
+  notifications = inject(NotificationService);
+  private router = inject(Router);
+
+  run(notification: Notification, action: NotificationAction) {
+    this.notifications.dismiss(notification.id);
+    if (action.link) {
+      this.router.navigateByUrl(action.link);
+    }
+    action.run?.();
+  }
+}
@@ -0,0 +1,9 @@
+import { Routes } from "@angular/router";
+
+export default [
+    {
+        path: '',
+        loadComponent: () => import('./wishlist'),
+    }
+
+] as Routes;
@@ -0,0 +1,25 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+
+import Wishlist from './wishlist';
+
+describe('Wishlist', () => {
+  let component: Wishlist;
+  let fixture: ComponentFixture<Wishlist>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [Wishlist],
+      providers: [provideRouter([])],
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(Wishlist);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
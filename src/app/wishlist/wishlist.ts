@@ -0,0 +1,14 @@
+import { Component, inject } from '@angular/core';
+import { CurrencyPipe, DatePipe } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { WishlistStateService } from '../shared/data-access/wishlist-state.service';
+
+@Component({
+  selector: 'app-wishlist',
+  imports: [CurrencyPipe, DatePipe, RouterLink],
+  templateUrl: './wishlist.html',
+  styles: ``,
+})
+export default class Wishlist {
+  wishlist = inject(WishlistStateService);
+}
@@ -1,3 +1,8 @@
+import { EnvironmentProviders } from '@angular/core';
+import { provideStoreDevtools } from '../app/shared/data-access/store-devtools.providers';
+
 export const environment = {
     API_URL: 'https://fakestoreapi.com',
+    /** Extra app providers for this build only: the store devtools (Ctrl+Shift+S) */
+    providers: [provideStoreDevtools()] as EnvironmentProviders[],
 };
@@ -1,3 +1,7 @@
+import { EnvironmentProviders } from '@angular/core';
+
 export const environment = {
     API_URL: 'https://fakestoreapi.com',
+    /** Extra app providers for this build only */
+    providers: [] as EnvironmentProviders[],
 };